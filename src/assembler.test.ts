@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AdvancedAssembler } from './assembler';
+
+describe('instruction sets', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'assembler-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('keeps the instruction set of each assembler separate', () => {
+    const full = new AdvancedAssembler({ isa: 'minisys-1a', generateDisassembly: true, generateReport: false });
+    const reduced = new AdvancedAssembler({ isa: 'minisys-1' });
+
+    const fullResult = full.assemble('.text\n  mult $t0, $t1\n');
+    const reducedResult = reduced.assemble('.text\n  mult $t0, $t1\n');
+    expect(fullResult.errors).toEqual([]);
+    expect(reducedResult.errors.map(error => error.message)).toEqual(['Instruction mult is not available in Minisys-1']);
+
+    full.generateOutput(fullResult, outputDir);
+    expect(fs.readFileSync(path.join(outputDir, 'disassembly.asm'), 'utf8')).toContain('; mult $t0, $t1');
+    expect(full.assemble('.text\n  mult $t0, $t1\n').errors).toEqual([]);
+  });
+
+  it('keeps registered instructions to the assembler that registered them', () => {
+    const custom = new AdvancedAssembler({ generateDisassembly: true, generateReport: false });
+    const plain = new AdvancedAssembler();
+    custom.registerInstruction({ mnemonic: 'swap', format: 'R', opcode: 0x1C, operands: ['rd', 'rt'] });
+
+    const customResult = custom.assemble('.text\n  swap $t0, $t1\n');
+    expect(customResult.errors).toEqual([]);
+    expect(plain.assemble('.text\n  swap $t0, $t1\n').errors.map(error => error.message)).toEqual(['Unknown instruction: swap (did you mean sw?)']);
+
+    custom.generateOutput(customResult, outputDir);
+    expect(fs.readFileSync(path.join(outputDir, 'disassembly.asm'), 'utf8')).toContain('; swap $t0, $t1');
+    expect(fs.readFileSync(path.join(outputDir, 'disassembled.txt'), 'utf8')).toContain('swap $t0, $t1');
+  });
+});
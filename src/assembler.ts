@@ -3,13 +3,24 @@
  * 整合所有组件，提供完整的汇编功能
  */
 
-import { Parser } from './parser/parser';
+import { Parser, ParserOptions } from './parser/parser';
 import { Encoder } from './codegen/encoder';
+import { BranchRelaxer } from './codegen/branch-relaxer';
 import { Formatter, OutputFormat } from './output/formatter';
+import { loadPseudoInstructions } from './expander/pseudo-loader';
+import {
+  CustomInstruction,
+  InstructionDefinition,
+  PSEUDO_INSTRUCTION_LOOKUP,
+  PseudoInstruction,
+  createInstructionDefinition
+} from './core/instruction-set';
+import { InstructionSet, MINISYS_1A_INSTRUCTION_SET, loadInstructionSet } from './core/isa';
 import { 
   AssemblyResult, 
   MemoryImage, 
-  AssemblyStatistics
+  AssemblyStatistics,
+  SourceLocation
 } from './core/types';
 
 // 汇编器配置
@@ -20,6 +31,13 @@ export interface AssemblerConfig {
   optimizeCode: boolean;
   verbose: boolean;
   generateUartFiles?: boolean;
+  enableDefaultMacros?: boolean;
+  includePaths?: string[];
+  defines?: { [name: string]: number };
+  autoAlign?: boolean;
+  relaxBranches?: boolean; // 超出范围的条件分支自动改写为反向短分支加 j
+  pseudoInstructionFile?: string; // 自定义伪指令文件（JSON 或 YAML）
+  isa?: string; // 指令集变体（minisys-1a、minisys-1）或指令集描述文件，默认 minisys-1a
 }
 
 // 默认配置
@@ -37,25 +55,64 @@ export class AdvancedAssembler {
   private parser: Parser;
   private encoder: Encoder | null = null;
   private formatter: Formatter | null = null;
+  private pseudoInstructions: PseudoInstruction[] = [];
+  private customInstructions: InstructionDefinition[] = [];
+  private instructionSet: InstructionSet = MINISYS_1A_INSTRUCTION_SET; // 配置的指令集加上注册的指令，只属于这个汇编器
 
   constructor(config: Partial<AssemblerConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.parser = new Parser();
+    this.parser = new Parser(this.getParserOptions());
   }
 
   /**
    * 汇编源代码
+   * @param file 源代码所在的文件（可选），用于解析 .include 和报告错误位置
+   * @param sourceMap 源代码每一行的原始位置（可选），如 linkUserProgram 返回的行号映射
    */
-  public assemble(source: string): AssemblyResult {
+  public assemble(source: string, file?: string, sourceMap?: SourceLocation[]): AssemblyResult {
     const startTime = Date.now();
     
     try {
       // 1. 解析阶段
+      // 先加载指令集并加入注册的指令，自定义伪指令按这个指令集检查
+      try {
+        this.instructionSet = loadInstructionSet(this.config.isa).withInstructions(this.customInstructions);
+        if (this.config.pseudoInstructionFile) {
+          this.pseudoInstructions = loadPseudoInstructions(this.config.pseudoInstructionFile, this.instructionSet);
+        }
+      } catch (error) {
+        return {
+          success: false,
+          errors: [{ type: 'SEMANTIC', message: error.message, lineNumber: 0, sourceLine: '' }],
+          warnings: [],
+          memoryImage: this.createEmptyMemoryImage(),
+          symbolTable: new Map(),
+          statistics: this.createEmptyStatistics()
+        };
+      }
+
       if (this.config.verbose) {
         console.log('正在解析源代码...');
       }
       
-      const context = this.parser.parse(source);
+      this.parser = new Parser(this.getParserOptions());
+      let context = this.parser.parse(source, file, sourceMap);
+      
+      // 分支松弛：改写超出范围的分支后重新解析布局，直到没有新的超出范围的分支
+      // 已松弛的指令不会撤销，每轮至少新增一条，因此必然收敛
+      const relaxedBranches: number[] = [];
+      while (this.config.relaxBranches && context.errors.length === 0) {
+        const outOfRange = new BranchRelaxer(context).findOutOfRangeBranches();
+        if (outOfRange.length === 0) {
+          break;
+        }
+        relaxedBranches.push(...outOfRange);
+        if (this.config.verbose) {
+          console.log(`分支松弛：改写 ${outOfRange.length} 条超出范围的分支，重新布局...`);
+        }
+        this.parser = new Parser({ ...this.getParserOptions(), relaxedBranches });
+        context = this.parser.parse(source, file, sourceMap);
+      }
       
       if (context.errors.length > 0) {
         return {
@@ -74,13 +131,14 @@ export class AdvancedAssembler {
       }
       
       this.encoder = new Encoder(context);
-      const { memoryImage, errors: encodingErrors, statistics } = this.encoder.encode();
+      const { memoryImage, errors: encodingErrors, warnings: encodingWarnings, statistics } = this.encoder.encode();
+      const warnings = [...context.warnings, ...encodingWarnings];
       
       if (encodingErrors.length > 0) {
         return {
           success: false,
           errors: [...context.errors, ...encodingErrors],
-          warnings: context.warnings,
+          warnings,
           memoryImage,
           symbolTable: context.globalLabels,
           statistics
@@ -92,7 +150,7 @@ export class AdvancedAssembler {
         console.log('正在格式化输出...');
       }
       
-      this.formatter = new Formatter(memoryImage);
+      this.formatter = new Formatter(memoryImage, this.instructionSet);
 
       const endTime = Date.now();
       const finalStatistics: AssemblyStatistics = {
@@ -103,7 +161,7 @@ export class AdvancedAssembler {
       return {
         success: true,
         errors: [],
-        warnings: context.warnings,
+        warnings,
         memoryImage,
         symbolTable: context.globalLabels,
         statistics: finalStatistics
@@ -209,7 +267,7 @@ export class AdvancedAssembler {
         const coePath = path.join(outputDir, 'prgmip32.coe');
         if (fs.existsSync(coePath)) {
           try {
-            disassembleCOE(coePath, path.join(outputDir, 'disassembled.txt'));
+            disassembleCOE(coePath, path.join(outputDir, 'disassembled.txt'), this.instructionSet);
           } catch (error) {
             // 如果反汇编失败，记录警告但不中断流程
             console.warn(`警告：生成disassembled.txt失败：${error instanceof Error ? error.message : '未知错误'}`);
@@ -251,8 +309,10 @@ export class AdvancedAssembler {
       // 根据标签名称和上下文判断类型
       // 简单判断：如果名称看起来像函数（如main, function_name），则认为是函数
       // 否则认为是数据
+      // 作用域局部标签（如 interruptServer0.loop）按其所属标签判断
+      const baseName = name.indexOf('.') > 0 ? name.slice(0, name.indexOf('.')) : name;
       let type = 'data';
-      if (name === 'main' || name.startsWith('_') || /^[a-z][a-zA-Z0-9_]*$/.test(name)) {
+      if (baseName === 'main' || baseName.startsWith('_') || /^[a-z][a-zA-Z0-9_]*$/.test(baseName)) {
         // 可能是函数标签
         type = 'function';
       }
@@ -292,6 +352,41 @@ export class AdvancedAssembler {
     };
   }
 
+  /**
+   * 注册一条指令（如使用空闲操作码的 popcnt、swap），这个汇编器之后的汇编和反汇编都可以使用，其他汇编器不受影响
+   * 没有编码回调时按操作数字段编码；助记符与已有指令或伪指令重名、编码与当前指令集中的指令冲突时抛出错误
+   *
+   *   assembler.registerInstruction({
+   *     mnemonic: 'popcnt', format: 'R', opcode: 0x00, funct: 0x28, operands: ['rd', 'rs'],
+   *     encode: ({ rd, rs }, word) => word | (rs << 21) | (rd << 11),
+   *     disassembly: 'popcnt {rd}, {rs}'
+   *   });
+   */
+  public registerInstruction(instruction: CustomInstruction): void {
+    const definition = createInstructionDefinition(instruction);
+    if (PSEUDO_INSTRUCTION_LOOKUP.has(definition.mnemonic)) {
+      throw new Error(`${definition.mnemonic}: conflicts with the built-in pseudo instruction ${definition.mnemonic}`);
+    }
+
+    // 按配置的指令集检查冲突，注册失败时已注册的指令不变
+    loadInstructionSet(this.config.isa).withInstructions([...this.customInstructions, definition]);
+    this.customInstructions.push(definition);
+  }
+
+  /**
+   * 根据配置生成解析器选项
+   */
+  public getParserOptions(): ParserOptions {
+    return {
+      enableDefaultMacros: this.config.enableDefaultMacros,
+      includePaths: this.config.includePaths,
+      defines: this.config.defines,
+      autoAlign: this.config.autoAlign,
+      pseudoInstructions: this.pseudoInstructions,
+      instructionSet: this.instructionSet
+    };
+  }
+
   /**
    * 设置配置
    */
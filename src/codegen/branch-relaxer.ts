@@ -0,0 +1,57 @@
+/**
+ * 分支松弛
+ * 找出目标超出 ±32K 条指令的条件分支，由汇编器将其改写为反向短分支跳过 j 后重新布局
+ */
+
+import { AssemblyContext, OperandType } from '../core/types';
+import { INVERTED_BRANCHES, PseudoExpander } from '../expander/pseudo-expander';
+import { MAX_BRANCH_OFFSET, MIN_BRANCH_OFFSET } from './encoder';
+
+// 分支松弛器类
+export class BranchRelaxer {
+  private context: AssemblyContext;
+  private pseudoExpander: PseudoExpander;
+
+  constructor(context: AssemblyContext) {
+    this.context = context;
+    this.pseudoExpander = new PseudoExpander(context);
+  }
+
+  /**
+   * 按当前布局查找需要松弛的指令，返回其在代码段指令列表中的下标
+   * 已松弛的指令和无法改写的分支（如 bgezal）不会返回
+   */
+  public findOutOfRangeBranches(): number[] {
+    const textSegment = this.context.segments.get('text');
+    if (!textSegment) {
+      return [];
+    }
+
+    const indexes: number[] = [];
+    textSegment.instructions.forEach((instruction, index) => {
+      if (instruction.relaxed) {
+        return;
+      }
+
+      const expanded = this.pseudoExpander.expandPseudoInstruction(instruction);
+      const outOfRange = expanded.some((inst, offset) => {
+        const target = inst.operands[inst.operands.length - 1];
+        if (!INVERTED_BRANCHES.has(inst.mnemonic) || !target || target.type !== OperandType.LABEL || !target.label) {
+          return false;
+        }
+        const label = this.context.globalLabels.get(target.label);
+        if (!label) {
+          return false;
+        }
+        const address = (instruction.address || 0) + offset * 4;
+        const distance = Math.floor((label.address - (address + 4)) / 4);
+        return distance < MIN_BRANCH_OFFSET || distance > MAX_BRANCH_OFFSET;
+      });
+
+      if (outOfRange) {
+        indexes.push(index);
+      }
+    });
+    return indexes;
+  }
+}
@@ -0,0 +1,28 @@
+import { AdvancedAssembler } from '../assembler';
+
+function assemble(line: string) {
+  const result = new AdvancedAssembler().assemble(`.text\n${line}\n`);
+  return { errors: result.errors.map(error => error.message), warnings: result.warnings.map(warning => warning.message) };
+}
+
+describe('signed immediate and offset ranges', () => {
+  it('rejects decimal values outside -32768..32767', () => {
+    expect(assemble('addi $t0, $zero, 40000').errors).toEqual([
+      'Failed to encode instruction: addi - Immediate 40000 out of range for addi (expected -32768..32767)'
+    ]);
+    expect(assemble('lw $t0, 40000($t1)').errors).toEqual([
+      'Failed to encode instruction: lw - Offset 40000 out of range for lw (expected -32768..32767)'
+    ]);
+  });
+
+  it('warns about hex bit patterns that are sign-extended', () => {
+    expect(assemble('addi $t0, $zero, 0xFC60')).toEqual({
+      errors: [],
+      warnings: ['addi immediate 0xFC60 is sign-extended to -928 (0xFFFFFC60)']
+    });
+    expect(assemble('lw $t0, 0xFFF0($t1)')).toEqual({
+      errors: [],
+      warnings: ['lw offset 0xFFF0 is sign-extended to -16 (0xFFFFFFF0)']
+    });
+  });
+});
@@ -11,23 +11,45 @@ import {
   MemoryImage, 
   Byte, 
   AssemblyError,
-  AssemblyStatistics
+  AssemblyWarning,
+  AssemblyStatistics,
+  MacroExpansionInfo,
+  DataDefinition,
+  DataValue,
+  ExpressionNode
 } from '../core/types';
-import { INSTRUCTION_LOOKUP, PSEUDO_INSTRUCTION_LOOKUP } from '../core/instruction-set';
+import { INSTRUCTION_FIELDS, PSEUDO_INSTRUCTION_LOOKUP, InstructionDefinition, OperandDefinition } from '../core/instruction-set';
+import { MINISYS_1A_INSTRUCTION_SET } from '../core/isa';
 import { PseudoExpander } from '../expander/pseudo-expander';
+import { evaluateExpression } from '../parser/expression';
+import { applySourceLocation } from '../parser/include-resolver';
 
 interface LabelFixup {
   instructionIndex: number;
-  label: string;
+  label: string; // 标签名，或目标表达式的源代码（如 loop+4）
+  address?: number; // 已求值的目标地址（标签运算表达式），没有时按标签名查找
   type: 'J' | 'BRANCH';
+  lineNumber: number;
+  macro?: MacroExpansionInfo;
 }
 
+// 分支偏移量（以指令为单位）的范围：有符号16位
+export const MIN_BRANCH_OFFSET = -0x8000;
+export const MAX_BRANCH_OFFSET = 0x7FFF;
+
+// J型指令只能跳转到与延迟槽地址相同的 256MB 区域（地址高4位相同）
+const JUMP_REGION_MASK = 0xF0000000;
+
+// 十六进制数字字面量（有符号字段写成这种形式时视为有意给出的位模式）
+const HEX_LITERAL_PATTERN = /^0x[0-9a-f]+$/i;
+
 // 编码器类
 export class Encoder {
   private context: AssemblyContext;
   private instructionMemory: Byte[] = [];
   private dataMemory: Byte[] = [];
   private errors: AssemblyError[] = [];
+  private warnings: AssemblyWarning[] = [];
   private pseudoExpander: PseudoExpander;
   private currentInstructionIndex: number = 0;
   private labelFixups: LabelFixup[] = [];
@@ -43,10 +65,16 @@ export class Encoder {
   /**
    * 生成机器码
    */
-  public encode(): { memoryImage: MemoryImage; errors: AssemblyError[]; statistics: AssemblyStatistics } {
+  public encode(): {
+    memoryImage: MemoryImage;
+    errors: AssemblyError[];
+    warnings: AssemblyWarning[];
+    statistics: AssemblyStatistics;
+  } {
     this.instructionMemory = [];
     this.dataMemory = [];
     this.errors = [];
+    this.warnings = [];
     this.currentInstructionIndex = 0; // 重置指令索引
 
     const startTime = Date.now();
@@ -84,6 +112,7 @@ export class Encoder {
     return {
       memoryImage,
       errors: this.errors,
+      warnings: this.warnings,
       statistics
     };
   }
@@ -99,7 +128,17 @@ export class Encoder {
     }
 
     for (const instruction of textSegment.instructions) {
+      // .align/.org 留下的空隙填充 nop
+      while (this.instructionMemory.length < instruction.address - textSegment.startAddress) {
+        this.instructionMemory.push(...this.wordToBytes(0));
+        this.currentInstructionIndex++;
+      }
+      
+      this.sourceInstruction = instruction;
       try {
+        // 对解析阶段推迟的表达式操作数求值
+        this.resolveOperandExpressions(instruction);
+        
         // 检查是否为伪指令
         const expandedInstructions = this.pseudoExpander.expandPseudoInstruction(instruction);
         
@@ -109,7 +148,7 @@ export class Encoder {
           this.currentInstructionIndex++;
         }
       } catch (error) {
-        this.addError(`Failed to encode instruction: ${instruction.mnemonic} - ${error.message}`, instruction.lineNumber);
+        this.addError(`Failed to encode instruction: ${instruction.mnemonic} - ${error.message}`, instruction.lineNumber, instruction.macro);
       }
     }
   }
@@ -119,16 +158,21 @@ export class Encoder {
    */
   private currentInstruction: Instruction | null = null;
 
+  /**
+   * 当前正在编码的源指令（伪指令展开前，用于报告警告位置）
+   */
+  private sourceInstruction: Instruction | null = null;
+
   /**
    * 编码单个指令
    */
   private encodeInstruction(_instruction: Instruction): Byte[] {
     this.currentInstruction = _instruction;
-    const definition = INSTRUCTION_LOOKUP.get(_instruction.mnemonic);
+    const definition = (this.context.instructionSet ?? MINISYS_1A_INSTRUCTION_SET).instructions.get(_instruction.mnemonic);
     
     if (!definition) {
       // 检查是否是伪指令
-      const pseudoInstruction = PSEUDO_INSTRUCTION_LOOKUP.get(_instruction.mnemonic);
+      const pseudoInstruction = (this.context.pseudoInstructions ?? PSEUDO_INSTRUCTION_LOOKUP).get(_instruction.mnemonic);
       if (pseudoInstruction) {
         return this.encodePseudoInstruction(_instruction);
       }
@@ -136,22 +180,22 @@ export class Encoder {
       throw new Error(`Unknown instruction: ${_instruction.mnemonic}`);
     }
 
+    if (definition.encode) {
+      return this.encodeCustomInstruction(_instruction, definition);
+    }
+
     switch (definition.type) {
       case 'R_TYPE':
         return this.encodeRTypeInstruction(_instruction, definition);
       case 'I_TYPE':
         // 检查是否是CP0指令
-        if (definition.encoding === 'CP0' && _instruction.mnemonic !== 'eret') {
+        if (definition.encoding === 'CP0') {
           return this.encodeCP0Instruction(_instruction, definition);
         }
         return this.encodeITypeInstruction(_instruction, definition);
       case 'J_TYPE':
         return this.encodeJTypeInstruction(_instruction, definition);
       case 'SPECIAL':
-        // 检查是否是CP0的eret指令
-        if (definition.encoding === 'CP0' && _instruction.mnemonic === 'eret') {
-          return this.encodeERETInstruction(_instruction, definition);
-        }
         return this.encodeSpecialInstruction(_instruction, definition);
       default:
         throw new Error(`Unsupported instruction type: ${definition.type}`);
@@ -164,8 +208,9 @@ export class Encoder {
   private encodeRTypeInstruction(instruction: Instruction, definition: any): Byte[] {
     let word = 0;
     
-    // 设置操作码
+    // 设置操作码和固定字段
     word |= (definition.opcode & 0x3F) << 26;
+    word |= this.encodeFixedFields(definition);
     
     // 设置功能码
     if (definition.funct !== undefined) {
@@ -181,7 +226,7 @@ export class Encoder {
         throw new Error(`Missing operand ${i + 1} for instruction ${instruction.mnemonic}`);
       }
       
-      const value = this.getOperandValue(operand, operandDef);
+      const value = this.checkOperandRange(this.getOperandValue(operand, operandDef), operandDef, instruction.mnemonic, operand);
       word |= (value & ((1 << operandDef.bits) - 1)) << operandDef.position;
     }
     
@@ -194,8 +239,9 @@ export class Encoder {
   private encodeITypeInstruction(instruction: Instruction, definition: any): Byte[] {
     let word = 0;
     
-    // 设置操作码
+    // 设置操作码和固定字段
     word |= (definition.opcode & 0x3F) << 26;
+    word |= this.encodeFixedFields(definition);
     
     // 特殊处理内存访问指令 (lw, sw, lb, sb, lh, sh, lbu, lhu)
     if (this.isMemoryAccessInstruction(instruction.mnemonic)) {
@@ -203,7 +249,7 @@ export class Encoder {
     }
     
     const isBranchInstruction = Encoder.BRANCH_MNEMONICS.has(instruction.mnemonic);
-    let pendingLabel: string | null = null;
+    let pendingTarget: { label: string; address?: number } | null = null;
 
     // 设置操作数
     for (let i = 0; i < definition.operands.length; i++) {
@@ -214,32 +260,34 @@ export class Encoder {
         throw new Error(`Missing operand ${i + 1} for instruction ${instruction.mnemonic}`);
       }
       
+      // 引用标签的表达式（如 loop+4）求值后是目标地址，与标签一样回填为相对偏移
+      if (operandDef.name === 'label' && operand.type === OperandType.IMMEDIATE && operand.expression) {
+        pendingTarget = { label: String(operand.value), address: operand.immediate };
+        continue;
+      }
+
       if (operand.type === OperandType.LABEL) {
         if (operandDef.name === 'label' && operand.label) {
-          pendingLabel = operand.label;
+          pendingTarget = { label: operand.label };
           continue;
         }
 
-        const labelInfo = operand.label ? this.context.globalLabels.get(operand.label) : undefined;
-        if (!labelInfo) {
+        const resolvedValue = operand.label ? this.lookupSymbol(operand.label) : undefined;
+        if (resolvedValue === undefined) {
           throw new Error(`Undefined label: ${operand.label}`);
         }
 
-        const resolvedValue = labelInfo.address;
-        word |= (resolvedValue & ((1 << operandDef.bits) - 1)) << operandDef.position;
+        const value = this.checkOperandRange(resolvedValue, operandDef, instruction.mnemonic, operand);
+        word |= (value & ((1 << operandDef.bits) - 1)) << operandDef.position;
         continue;
       }
 
-      const value = this.getOperandValue(operand, operandDef);
+      const value = this.checkOperandRange(this.getOperandValue(operand, operandDef), operandDef, instruction.mnemonic, operand);
       word |= (value & ((1 << operandDef.bits) - 1)) << operandDef.position;
     }
 
-    if (isBranchInstruction && pendingLabel) {
-      this.labelFixups.push({
-        instructionIndex: this.currentInstructionIndex,
-        label: pendingLabel,
-        type: 'BRANCH'
-      });
+    if (isBranchInstruction && pendingTarget) {
+      this.addLabelFixup(pendingTarget.label, 'BRANCH', pendingTarget.address);
     }
     
     return this.wordToBytes(word);
@@ -251,19 +299,17 @@ export class Encoder {
   private encodeJTypeInstruction(instruction: Instruction, definition: any): Byte[] {
     let word = 0;
     
-    // 设置操作码
+    // 设置操作码和固定字段
     word |= (definition.opcode & 0x3F) << 26;
+    word |= this.encodeFixedFields(definition);
     
     // 设置跳转地址
     const operand = instruction.operands[0];
     if (operand && operand.type === OperandType.LABEL && operand.label) {
-      this.labelFixups.push({
-        instructionIndex: this.currentInstructionIndex,
-        label: operand.label,
-        type: 'J'
-      });
+      this.addLabelFixup(operand.label, 'J');
     } else if (operand && operand.type === OperandType.IMMEDIATE && typeof operand.immediate === 'number') {
-      word |= (operand.immediate >>> 0) & 0x3FFFFFF;
+      // 绝对地址或引用标签的表达式（如 loop+4），与标签一样检查对齐和 256MB 区域后写入 target >>> 2
+      this.addLabelFixup(String(operand.value), 'J', operand.immediate >>> 0);
     }
     
     return this.wordToBytes(word);
@@ -275,8 +321,9 @@ export class Encoder {
   private encodeSpecialInstruction(instruction: Instruction, definition: any): Byte[] {
     let word = 0;
     
-    // 设置操作码
+    // 设置操作码和固定字段
     word |= (definition.opcode & 0x3F) << 26;
+    word |= this.encodeFixedFields(definition);
     
     // 设置功能码
     if (definition.funct !== undefined) {
@@ -292,17 +339,9 @@ export class Encoder {
   private encodeCP0Instruction(instruction: Instruction, definition: any): Byte[] {
     let word = 0;
     
-    // 设置操作码 OP_CP0 = 0x10
+    // 设置操作码 OP_CP0 = 0x10 和区分 mfc0/mtc0 的rs字段（mfc0为0x00，mtc0为0x04）
     word |= (definition.opcode & 0x3F) << 26;
-    
-    // 根据指令类型设置rs字段
-    let rsValue = 0;
-    if (instruction.mnemonic === 'mfc0') {
-      rsValue = 0x00; // mfc0使用rs=0x00
-    } else if (instruction.mnemonic === 'mtc0') {
-      rsValue = 0x04; // mtc0使用rs=0x04
-    }
-    word |= (rsValue & 0x1F) << 21;
+    word |= this.encodeFixedFields(definition);
     
     // 设置操作数
     // mfc0/mtc0格式: mfc0 rt, rd 或 mfc0 rt, rd, sel
@@ -325,7 +364,7 @@ export class Encoder {
     if (instruction.operands.length >= 3) {
       const sel = instruction.operands[2];
       if (sel && sel.type === OperandType.IMMEDIATE) {
-        word |= (sel.immediate || 0) & 0x07;
+        word |= this.checkOperandRange(sel.immediate || 0, definition.operands[2], instruction.mnemonic) & 0x07;
       }
     }
     
@@ -333,21 +372,67 @@ export class Encoder {
   }
 
   /**
-   * 编码ERET指令
-   * eret指令编码: op=0x10, ins[25:0]=0x2000018 (26'b10000000000000000000011000)
-   * 26位二进制: 10000000000000000000011000 = 0x2000018
+   * 编码带自定义编码回调的指令：先填入操作码、功能码和固定字段，再由回调填入操作数
    */
-  private encodeERETInstruction(instruction: Instruction, definition: any): Byte[] {
+  private encodeCustomInstruction(instruction: Instruction, definition: InstructionDefinition): Byte[] {
+    let word = (definition.opcode & 0x3F) << 26;
+    word |= this.encodeFixedFields(definition);
+    if (definition.funct !== undefined) {
+      word |= definition.funct & 0x3F;
+    }
+
+    // 源代码中的 offset(rs) 是一个操作数，对应两个操作数定义
+    const operands: { [name: string]: number } = {};
+    let index = 0;
+    for (const operandDef of definition.operands) {
+      const operand = instruction.operands[index];
+      if (!operand) {
+        if (operandDef.required) {
+          throw new Error(`Missing operand ${index + 1} for instruction ${instruction.mnemonic}`);
+        }
+        operands[operandDef.name] = 0;
+        continue;
+      }
+
+      if (operand.type === OperandType.LABEL) {
+        const address = operand.label ? this.lookupSymbol(operand.label) : undefined;
+        if (address === undefined) {
+          throw new Error(`Undefined label: ${operand.label}`);
+        }
+        operands[operandDef.name] = operandDef.type === OperandType.LABEL
+          ? address
+          : this.checkOperandRange(address, operandDef, instruction.mnemonic, operand);
+      } else {
+        operands[operandDef.name] = operandDef.type === OperandType.LABEL
+          ? operand.immediate || 0
+          : this.checkOperandRange(this.getOperandValue(operand, operandDef), operandDef, instruction.mnemonic, operand);
+      }
+
+      if (operandDef.type !== OperandType.OFFSET) {
+        index++;
+      }
+    }
+
+    const address = instruction.address ?? this.getCurrentInstructionAddress();
+    const encoded = definition.encode!(operands, word >>> 0, address);
+    if (!Number.isInteger(encoded)) {
+      throw new Error(`Encoding callback of ${instruction.mnemonic} returned ${encoded}, expected a 32-bit word`);
+    }
+    return this.wordToBytes(encoded >>> 0);
+  }
+
+  /**
+   * 编码固定字段（如 bgez 的 rt=1、eret 的 rs=0x10）
+   */
+  private encodeFixedFields(definition: InstructionDefinition): number {
     let word = 0;
-    
-    // 设置操作码 OP_CP0 = 0x10
-    word |= (definition.opcode & 0x3F) << 26;
-    
-    // eret指令的特殊编码: 低26位必须是0x2000018
-    // 即 ins[25:0] = 26'b10000000000000000000011000 = 0x2000018
-    word |= 0x2000018;
-    
-    return this.wordToBytes(word);
+    for (const [name, value] of Object.entries(definition.fields || {})) {
+      const field = INSTRUCTION_FIELDS.get(name);
+      if (field) {
+        word |= (value & ((1 << field.bits) - 1)) << field.position;
+      }
+    }
+    return word;
   }
 
   /**
@@ -398,21 +483,102 @@ export class Encoder {
     word |= ((address.register || 0) & 0x1F) << 21;
     
     // 设置offset (位置0-15)
-    let offset = address.offset || 0;
+    const offset = this.checkOperandRange(address.offset || 0, definition.operands[1], instruction.mnemonic, address);
+    word |= (offset & 0xFFFF);
     
-    // 如果offset是标签，需要解析标签地址
-    if (address.label && address.offset === 0 && !/^\d+$/.test(address.label)) {
-      const label = this.context.globalLabels.get(address.label);
-      if (label) {
-        offset = label.address;
-      } else {
-        throw new Error(`Undefined label: ${address.label}`);
-      }
+    return this.wordToBytes(word);
+  }
+
+  /**
+   * 检查立即数、偏移量、移位量等字段的取值范围，返回写入字段的值
+   * 超出字段位数时报错；有符号字段以十六进制写成无符号形式（如 addi 的 0xFC60）、
+   * 无符号立即数写成负数（如 ori 的 -1）时值会被意外扩展，给出兼容性警告
+   * @param operand 源操作数，用于判断是否以十六进制书写（十进制的 40000 超出有符号范围时报错）
+   */
+  private checkOperandRange(value: number, operandDef: OperandDefinition, mnemonic: string, operand?: Operand): number {
+    if (operandDef.type !== OperandType.IMMEDIATE && operandDef.type !== OperandType.OFFSET) {
+      return value;
     }
     
-    word |= (offset & 0xFFFF);
+    const limit = 2 ** operandDef.bits;
+    if (operandDef.signed) {
+      const min = -limit / 2;
+      const max = limit / 2 - 1;
+      if (value >= min && value <= max) {
+        return value;
+      }
+      // 按32位补码书写的负数（如 0xFFFFFC60）
+      if (value > max && value <= 0xFFFFFFFF && (value | 0) >= min && (value | 0) < 0) {
+        return value | 0;
+      }
+      if (value > max && value < limit && operand && isHexOperand(operand)) {
+        const extended = value - limit;
+        this.addWarning(
+          `${mnemonic} ${operandDef.name} ${formatHex(value)} is sign-extended to ${extended} (${formatHex(extended >>> 0)})`
+        );
+        return value;
+      }
+      throw new Error(`${capitalize(operandDef.name)} ${value} out of range for ${mnemonic} (expected ${min}..${max})`);
+    }
     
-    return this.wordToBytes(word);
+    if (value >= 0 && value < limit) {
+      return value;
+    }
+    if (operandDef.name === 'immediate' && value < 0 && value >= -limit / 2) {
+      const extended = value + limit;
+      this.addWarning(`${mnemonic} ${operandDef.name} ${value} is zero-extended to ${extended} (${formatHex(extended)})`);
+      return value;
+    }
+    throw new Error(`${capitalize(operandDef.name)} ${value} out of range for ${mnemonic} (expected 0..${limit - 1})`);
+  }
+
+  /**
+   * 对推迟求值的表达式操作数求值（此时所有标签地址均已确定）
+   */
+  private resolveOperandExpressions(instruction: Instruction): void {
+    for (const operand of instruction.operands) {
+      if (!operand.expression) {
+        continue;
+      }
+      
+      const value = this.evaluate(operand.expression);
+      if (operand.type === OperandType.ADDRESS) {
+        operand.offset = value;
+      } else {
+        operand.immediate = value;
+      }
+    }
+  }
+
+  /**
+   * 查找符号的值：符号常量优先，其次是标签地址
+   */
+  private lookupSymbol(name: string): number | undefined {
+    const constant = this.context.constants.get(name);
+    if (constant) {
+      return constant.value;
+    }
+    return this.context.globalLabels.get(name)?.address;
+  }
+
+  /**
+   * 使用符号常量和标签地址对表达式求值
+   */
+  private evaluate(expression: ExpressionNode): number {
+    return evaluateExpression(expression, name => this.lookupSymbol(name));
+  }
+
+  /**
+   * 获取数据值（推迟求值的表达式在此时求值）
+   */
+  private resolveDataValue(value: DataValue): number {
+    if (typeof value === 'object') {
+      return this.evaluate(value);
+    }
+    if (typeof value === 'string') {
+      throw new Error(`String literal not allowed here: "${value}"`);
+    }
+    return value;
   }
 
   /**
@@ -472,41 +638,60 @@ export class Encoder {
     }
 
     for (const dataDef of dataSegment.data) {
-      this.encodeDataDefinition(dataDef);
+      // .align/.org 留下的空隙填充 0
+      while (this.dataMemory.length < dataDef.address - dataSegment.startAddress) {
+        this.dataMemory.push(0);
+      }
+      
+      try {
+        this.encodeDataDefinition(dataDef);
+      } catch (error) {
+        this.addError(`Failed to encode .${dataDef.type} data: ${error.message}`, dataDef.lineNumber, dataDef.macro);
+      }
     }
   }
 
   /**
    * 编码数据定义
    */
-  private encodeDataDefinition(dataDef: any): void {
+  private encodeDataDefinition(dataDef: DataDefinition): void {
+    // 先对所有值求值，避免出错时写入部分数据
+    const isString = dataDef.type === 'ascii' || dataDef.type === 'asciiz';
+    const numericValues = isString ? [] : dataDef.values.map(value => this.resolveDataValue(value));
+    
     switch (dataDef.type) {
       case 'byte':
-        for (const value of dataDef.values) {
-          this.dataMemory.push((value as number) & 0xFF);
+        for (const value of numericValues) {
+          this.dataMemory.push(value & 0xFF);
         }
         break;
       case 'half':
-        for (const value of dataDef.values) {
-          const bytes = this.wordToBytes((value as number) || 0);
+        for (const value of numericValues) {
+          const bytes = this.wordToBytes(value);
           this.dataMemory.push(bytes[2], bytes[3]); // 只取低16位
         }
         break;
       case 'word':
-        for (const value of dataDef.values) {
-          this.dataMemory.push(...this.wordToBytes((value as number) || 0));
+        for (const value of numericValues) {
+          this.dataMemory.push(...this.wordToBytes(value));
         }
         break;
       case 'ascii':
+      case 'asciiz':
         for (const value of dataDef.values) {
-          const str = value as string;
-          for (let i = 0; i < str.length; i++) {
-            this.dataMemory.push(str.charCodeAt(i) & 0xFF);
+          if (typeof value !== 'string') {
+            throw new Error('Expected a string literal');
+          }
+          for (let i = 0; i < value.length; i++) {
+            this.dataMemory.push(value.charCodeAt(i) & 0xFF);
+          }
+          if (dataDef.type === 'asciiz') {
+            this.dataMemory.push(0);
           }
         }
         break;
       case 'space':
-        const size = (dataDef.values[0] as number) || 0;
+        const size = numericValues[0] || 0;
         for (let i = 0; i < size; i++) {
           this.dataMemory.push(0);
         }
@@ -523,22 +708,52 @@ export class Encoder {
     }
 
     for (const fixup of this.labelFixups) {
-      const labelInfo = this.context.globalLabels.get(fixup.label);
+      const labelInfo = fixup.address !== undefined
+        ? { address: fixup.address }
+        : this.context.globalLabels.get(fixup.label);
       if (!labelInfo) {
-        this.addError(`Undefined label: ${fixup.label}`);
+        this.addError(`Undefined label: ${fixup.label}`, fixup.lineNumber, fixup.macro);
+        continue;
+      }
+
+      // 指令只能位于字对齐的地址
+      if (labelInfo.address % 4 !== 0) {
+        const kind = fixup.type === 'J' ? 'Jump' : 'Branch';
+        this.addError(
+          `${kind} target ${fixup.label} is not word aligned (${formatHex(labelInfo.address)})`,
+          fixup.lineNumber,
+          fixup.macro
+        );
         continue;
       }
 
       const currentWord = this.readWordAtInstructionIndex(fixup.instructionIndex);
+      const instructionAddress = fixup.instructionIndex * 4;
       let patchedWord = currentWord;
 
       if (fixup.type === 'J') {
+        const delaySlotAddress = instructionAddress + 4;
+        if (((labelInfo.address ^ delaySlotAddress) & JUMP_REGION_MASK) !== 0) {
+          this.addError(
+            `Jump target ${fixup.label} (${formatHex(labelInfo.address)}) is outside the 256MB region of the jump at ${formatHex(instructionAddress)}`,
+            fixup.lineNumber,
+            fixup.macro
+          );
+          continue;
+        }
         const target = (labelInfo.address >>> 2) & 0x3FFFFFF;
         patchedWord = (currentWord & 0xFC000000) | target;
         
       } else if (fixup.type === 'BRANCH') {
-        const branchAddress = fixup.instructionIndex * 4;
-        const offset = ((labelInfo.address - (branchAddress + 4)) >> 2) & 0xFFFF;
+        const offset = (labelInfo.address - (instructionAddress + 4)) / 4;
+        if (offset < MIN_BRANCH_OFFSET || offset > MAX_BRANCH_OFFSET) {
+          this.addError(
+            `Branch to ${fixup.label} out of range: ${offset} instructions (expected ${MIN_BRANCH_OFFSET}..${MAX_BRANCH_OFFSET})`,
+            fixup.lineNumber,
+            fixup.macro
+          );
+          continue;
+        }
         patchedWord = (currentWord & 0xFFFF0000) | (offset & 0xFFFF);
       }
 
@@ -548,6 +763,20 @@ export class Encoder {
     this.labelFixups = [];
   }
 
+  /**
+   * 记录需要在所有指令编码后回填的标签引用（address 为标签运算表达式的目标地址）
+   */
+  private addLabelFixup(label: string, type: LabelFixup['type'], address?: number): void {
+    this.labelFixups.push({
+      instructionIndex: this.currentInstructionIndex,
+      label,
+      address,
+      type,
+      lineNumber: this.sourceInstruction?.lineNumber || 0,
+      macro: this.sourceInstruction?.macro
+    });
+  }
+
   /**
    * 将32位字转换为字节数组
    */
@@ -563,13 +792,27 @@ export class Encoder {
   /**
    * 添加错误
    */
-  private addError(message: string, lineNumber?: number): void {
-    this.errors.push({
+  private addError(message: string, lineNumber?: number, macro?: MacroExpansionInfo): void {
+    this.errors.push(applySourceLocation<AssemblyError>({
       type: 'SEMANTIC',
       message,
       lineNumber: lineNumber || 0,
-      sourceLine: ''
-    });
+      sourceLine: '',
+      macro
+    }, this.context.sourceMap));
+  }
+
+  /**
+   * 添加警告（位置为当前正在编码的源指令）
+   */
+  private addWarning(message: string): void {
+    const instruction = this.sourceInstruction;
+    this.warnings.push(applySourceLocation<AssemblyWarning>({
+      type: 'COMPATIBILITY',
+      message,
+      lineNumber: instruction?.lineNumber || 0,
+      sourceLine: instruction?.sourceLine || ''
+    }, this.context.sourceMap));
   }
 
   private readWordAtInstructionIndex(index: number): number {
@@ -589,3 +832,25 @@ export class Encoder {
     this.instructionMemory[offset + 3] = word & 0xFF;
   }
 }
+
+/**
+ * 格式化为十六进制
+ */
+function formatHex(value: number): string {
+  return `0x${value.toString(16).toUpperCase()}`;
+}
+
+/**
+ * 首字母大写
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * 操作数（访存指令为偏移量部分）是否以十六进制数字书写
+ */
+function isHexOperand(operand: Operand): boolean {
+  const text = String(operand.value);
+  return HEX_LITERAL_PATTERN.test((operand.type === OperandType.ADDRESS ? text.split('(')[0] : text).trim());
+}
@@ -3,7 +3,7 @@
  * 定义Minisys-1A处理器的完整指令集
  */
 
-import { InstructionType, OperandType } from './types';
+import { InstructionType, OperandType, REGISTER_NAMES } from './types';
 
 // 指令定义接口
 export interface InstructionDefinition {
@@ -11,11 +11,19 @@ export interface InstructionDefinition {
   type: InstructionType;
   opcode: number;
   funct?: number;
+  fields?: { [field: string]: number }; // 固定字段的值（如 bgez 的 rt=1、mtc0 的 rs=4）
+  aliasOf?: string; // 是另一条指令某个编码的别名（如 nop 即 sll $zero, $zero, 0），不参与编码冲突检查
   operands: OperandDefinition[];
   description: string;
   encoding: string;
+  encode?: InstructionEncoder; // 自定义编码回调，没有时按操作数字段编码
+  disassembly?: string; // 反汇编写法，如 'swap {rd}, {rt}'，没有时按操作数顺序输出
 }
 
+// 自定义编码回调：operands 按操作数名称给出取值（寄存器为编号，标签为目标地址），
+// word 为已填入操作码、功能码和固定字段的机器码，address 为指令地址，返回完整的机器码
+export type InstructionEncoder = (operands: { [name: string]: number }, word: number, address: number) => number;
+
 // 操作数定义接口
 export interface OperandDefinition {
   type: OperandType;
@@ -23,817 +31,569 @@ export interface OperandDefinition {
   bits: number;
   position: number;
   required: boolean;
+  signed?: boolean; // 字段是否按有符号数解释（符号扩展的立即数、偏移量）
 }
 
-// 指令集定义
-export const INSTRUCTION_SET: InstructionDefinition[] = [
-  // R型指令
-  {
-    mnemonic: 'add',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x20,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Add registers',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'addu',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x21,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Add registers unsigned',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'sub',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x22,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Subtract registers',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'subu',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x23,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Subtract registers unsigned',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'and',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x24,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Bitwise AND',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'or',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x25,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Bitwise OR',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'slt',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x2A,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Set less than',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'sltu',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x2B,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Set less than unsigned',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'jr',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x08,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Jump register',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'jalr',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x09,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Jump and link register',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'mult',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x18,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Multiply',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'multu',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x19,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Multiply unsigned',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'div',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x1A,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Divide',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'divu',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x1B,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Divide unsigned',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'mfhi',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x10,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true }
-    ],
-    description: 'Move from HI',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'mflo',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x12,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true }
-    ],
-    description: 'Move from LO',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'mthi',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x11,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Move to HI',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'mtlo',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x13,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Move to LO',
-    encoding: 'R'
-  },
+// 指令描述：指令集描述文件中的一条指令
+export interface InstructionDescription {
+  mnemonic: string;
+  format: string; // R、I、J 或 CP0
+  opcode: number;
+  funct?: number;
+  fields?: { [field: string]: number };
+  aliasOf?: string;
+  operands: string[]; // 按源代码书写顺序排列的操作数字段，见 OPERAND_FIELDS
+  disassembly?: string;
+  description?: string;
+}
 
-  // I型指令
-  {
-    mnemonic: 'addi',
-    type: InstructionType.I_TYPE,
-    opcode: 0x08,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.IMMEDIATE, name: 'immediate', bits: 16, position: 0, required: true }
-    ],
-    description: 'Add immediate',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'addiu',
-    type: InstructionType.I_TYPE,
-    opcode: 0x09,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.IMMEDIATE, name: 'immediate', bits: 16, position: 0, required: true }
-    ],
-    description: 'Add immediate unsigned',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'andi',
-    type: InstructionType.I_TYPE,
-    opcode: 0x0C,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.IMMEDIATE, name: 'immediate', bits: 16, position: 0, required: true }
-    ],
-    description: 'AND immediate',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'ori',
-    type: InstructionType.I_TYPE,
-    opcode: 0x0D,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.IMMEDIATE, name: 'immediate', bits: 16, position: 0, required: true }
-    ],
-    description: 'OR immediate',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'lui',
-    type: InstructionType.I_TYPE,
-    opcode: 0x0F,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.IMMEDIATE, name: 'immediate', bits: 16, position: 0, required: true }
-    ],
-    description: 'Load upper immediate',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'lw',
-    type: InstructionType.I_TYPE,
-    opcode: 0x23,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.OFFSET, name: 'offset', bits: 16, position: 0, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Load word',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'sw',
-    type: InstructionType.I_TYPE,
-    opcode: 0x2B,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.OFFSET, name: 'offset', bits: 16, position: 0, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Store word',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'beq',
-    type: InstructionType.I_TYPE,
-    opcode: 0x04,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.LABEL, name: 'label', bits: 16, position: 0, required: true }
-    ],
-    description: 'Branch if equal',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'bne',
-    type: InstructionType.I_TYPE,
-    opcode: 0x05,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.LABEL, name: 'label', bits: 16, position: 0, required: true }
-    ],
-    description: 'Branch if not equal',
-    encoding: 'I'
-  },
+// 以编程方式注册的指令（AdvancedAssembler.registerInstruction），可以带编码回调
+export interface CustomInstruction extends InstructionDescription {
+  encode?: InstructionEncoder;
+}
 
-  // J型指令
-  {
-    mnemonic: 'j',
-    type: InstructionType.J_TYPE,
-    opcode: 0x02,
-    operands: [
-      { type: OperandType.LABEL, name: 'label', bits: 26, position: 0, required: true }
-    ],
-    description: 'Jump',
-    encoding: 'J'
-  },
-  {
-    mnemonic: 'jal',
-    type: InstructionType.J_TYPE,
-    opcode: 0x03,
-    operands: [
-      { type: OperandType.LABEL, name: 'label', bits: 26, position: 0, required: true }
-    ],
-    description: 'Jump and link',
-    encoding: 'J'
-  },
-
-  // 特殊指令
-  {
-    mnemonic: 'nop',
-    type: InstructionType.SPECIAL,
-    opcode: 0,
-    funct: 0,
-    operands: [],
-    description: 'No operation',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'syscall',
-    type: InstructionType.SPECIAL,
-    opcode: 0,
-    funct: 0x0C,
-    operands: [],
-    description: 'System call',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'break',
-    type: InstructionType.SPECIAL,
-    opcode: 0,
-    funct: 0x0D,
-    operands: [],
-    description: 'Breakpoint',
-    encoding: 'R'
-  },
-  // CP0指令
-  {
-    mnemonic: 'mfc0',
-    type: InstructionType.I_TYPE,
-    opcode: 0x10, // OP_CP0
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.IMMEDIATE, name: 'sel', bits: 3, position: 0, required: false }
-    ],
-    description: 'Move from CP0',
-    encoding: 'CP0'
-  },
-  {
-    mnemonic: 'mtc0',
-    type: InstructionType.I_TYPE,
-    opcode: 0x10, // OP_CP0
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.IMMEDIATE, name: 'sel', bits: 3, position: 0, required: false }
-    ],
-    description: 'Move to CP0',
-    encoding: 'CP0'
-  },
-  {
-    mnemonic: 'eret',
-    type: InstructionType.SPECIAL,
-    opcode: 0x10, // OP_CP0
-    operands: [],
-    description: 'Exception return',
-    encoding: 'CP0'
-  },
-  // 更多R型指令
-  {
-    mnemonic: 'xor',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x26,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Bitwise XOR',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'nor',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x27,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }
-    ],
-    description: 'Bitwise NOR',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'sll',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x00,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.IMMEDIATE, name: 'shamt', bits: 5, position: 6, required: true }
-    ],
-    description: 'Shift left logical',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'srl',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x02,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.IMMEDIATE, name: 'shamt', bits: 5, position: 6, required: true }
-    ],
-    description: 'Shift right logical',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'sra',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x03,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.IMMEDIATE, name: 'shamt', bits: 5, position: 6, required: true }
-    ],
-    description: 'Shift right arithmetic',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'sllv',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x04,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Shift left logical variable',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'srlv',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x06,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Shift right logical variable',
-    encoding: 'R'
-  },
-  {
-    mnemonic: 'srav',
-    type: InstructionType.R_TYPE,
-    opcode: 0,
-    funct: 0x07,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true },
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Shift right arithmetic variable',
-    encoding: 'R'
-  },
-  // 更多I型指令
-  {
-    mnemonic: 'slti',
-    type: InstructionType.I_TYPE,
-    opcode: 0x0A,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.IMMEDIATE, name: 'immediate', bits: 16, position: 0, required: true }
-    ],
-    description: 'Set less than immediate',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'lb',
-    type: InstructionType.I_TYPE,
-    opcode: 0x20,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.OFFSET, name: 'offset', bits: 16, position: 0, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Load byte',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'sb',
-    type: InstructionType.I_TYPE,
-    opcode: 0x28,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.OFFSET, name: 'offset', bits: 16, position: 0, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Store byte',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'lh',
-    type: InstructionType.I_TYPE,
-    opcode: 0x21,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.OFFSET, name: 'offset', bits: 16, position: 0, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Load halfword',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'sh',
-    type: InstructionType.I_TYPE,
-    opcode: 0x29,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.OFFSET, name: 'offset', bits: 16, position: 0, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Store halfword',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'lbu',
-    type: InstructionType.I_TYPE,
-    opcode: 0x24,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.OFFSET, name: 'offset', bits: 16, position: 0, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Load byte unsigned',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'lhu',
-    type: InstructionType.I_TYPE,
-    opcode: 0x25,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.OFFSET, name: 'offset', bits: 16, position: 0, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
-    ],
-    description: 'Load halfword unsigned',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'xori',
-    type: InstructionType.I_TYPE,
-    opcode: 0x0E,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.IMMEDIATE, name: 'immediate', bits: 16, position: 0, required: true }
-    ],
-    description: 'XOR immediate',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'sltiu',
-    type: InstructionType.I_TYPE,
-    opcode: 0x0B,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true },
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.IMMEDIATE, name: 'immediate', bits: 16, position: 0, required: true }
-    ],
-    description: 'Set less than immediate unsigned',
-    encoding: 'I'
-  },
-  // 分支指令
-  {
-    mnemonic: 'blez',
-    type: InstructionType.I_TYPE,
-    opcode: 0x06,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.LABEL, name: 'label', bits: 16, position: 0, required: true }
-    ],
-    description: 'Branch if less than or equal to zero',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'bgtz',
-    type: InstructionType.I_TYPE,
-    opcode: 0x07,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.LABEL, name: 'label', bits: 16, position: 0, required: true }
-    ],
-    description: 'Branch if greater than zero',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'bltz',
-    type: InstructionType.I_TYPE,
-    opcode: 0x01,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.LABEL, name: 'label', bits: 16, position: 0, required: true }
-    ],
-    description: 'Branch if less than zero',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'bgez',
-    type: InstructionType.I_TYPE,
-    opcode: 0x01,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.LABEL, name: 'label', bits: 16, position: 0, required: true }
-    ],
-    description: 'Branch if greater than or equal to zero',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'bgezal',
-    type: InstructionType.I_TYPE,
-    opcode: 0x01,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.LABEL, name: 'label', bits: 16, position: 0, required: true }
-    ],
-    description: 'Branch if greater than or equal to zero and link',
-    encoding: 'I'
-  },
-  {
-    mnemonic: 'bltzal',
-    type: InstructionType.I_TYPE,
-    opcode: 0x01,
-    operands: [
-      { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true },
-      { type: OperandType.LABEL, name: 'label', bits: 16, position: 0, required: true }
-    ],
-    description: 'Branch if less than zero and link',
-    encoding: 'I'
+// 指令集描述：可以在基础指令集（base）上删除（remove）、替换或增加指令
+export interface InstructionSetDescription {
+  name: string;
+  base?: string;
+  remove?: string[];
+  instructions?: InstructionDescription[];
+}
+
+// 指令字中的字段：起始位和位数
+export const INSTRUCTION_FIELDS: Map<string, { position: number; bits: number }> = new Map([
+  ['op', { position: 26, bits: 6 }],
+  ['rs', { position: 21, bits: 5 }],
+  ['rt', { position: 16, bits: 5 }],
+  ['rd', { position: 11, bits: 5 }],
+  ['shamt', { position: 6, bits: 5 }],
+  ['funct', { position: 0, bits: 6 }]
+]);
+
+// 指令描述中可用的操作数字段
+export const OPERAND_FIELDS: Map<string, OperandDefinition[]> = new Map([
+  ['rd', [{ type: OperandType.REGISTER, name: 'rd', bits: 5, position: 11, required: true }]],
+  ['rs', [{ type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }]],
+  ['rt', [{ type: OperandType.REGISTER, name: 'rt', bits: 5, position: 16, required: true }]],
+  ['shamt', [{ type: OperandType.IMMEDIATE, name: 'shamt', bits: 5, position: 6, required: true }]],
+  ['immediate', [{ type: OperandType.IMMEDIATE, name: 'immediate', bits: 16, position: 0, required: true }]],
+  ['simmediate', [{ type: OperandType.IMMEDIATE, name: 'immediate', bits: 16, position: 0, required: true, signed: true }]],
+  ['offset(rs)', [
+    { type: OperandType.OFFSET, name: 'offset', bits: 16, position: 0, required: true, signed: true },
+    { type: OperandType.REGISTER, name: 'rs', bits: 5, position: 21, required: true }
+  ]],
+  ['label', [{ type: OperandType.LABEL, name: 'label', bits: 16, position: 0, required: true, signed: true }]],
+  ['target', [{ type: OperandType.LABEL, name: 'label', bits: 26, position: 0, required: true }]],
+  ['sel', [{ type: OperandType.IMMEDIATE, name: 'sel', bits: 3, position: 0, required: false }]]
+]);
+
+// 反汇编写法中的操作数占位符，如 {rd}
+export const DISASSEMBLY_PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+// Minisys-1A 指令集描述
+export const MINISYS_1A: InstructionSetDescription = {
+  name: 'Minisys-1A',
+  instructions: [
+    // R型指令
+    { mnemonic: 'add', format: 'R', opcode: 0x00, funct: 0x20, operands: ['rd', 'rs', 'rt'], description: 'Add registers' },
+    { mnemonic: 'addu', format: 'R', opcode: 0x00, funct: 0x21, operands: ['rd', 'rs', 'rt'], description: 'Add registers unsigned' },
+    { mnemonic: 'sub', format: 'R', opcode: 0x00, funct: 0x22, operands: ['rd', 'rs', 'rt'], description: 'Subtract registers' },
+    { mnemonic: 'subu', format: 'R', opcode: 0x00, funct: 0x23, operands: ['rd', 'rs', 'rt'], description: 'Subtract registers unsigned' },
+    { mnemonic: 'and', format: 'R', opcode: 0x00, funct: 0x24, operands: ['rd', 'rs', 'rt'], description: 'Bitwise AND' },
+    { mnemonic: 'or', format: 'R', opcode: 0x00, funct: 0x25, operands: ['rd', 'rs', 'rt'], description: 'Bitwise OR' },
+    { mnemonic: 'slt', format: 'R', opcode: 0x00, funct: 0x2A, operands: ['rd', 'rs', 'rt'], description: 'Set less than' },
+    { mnemonic: 'sltu', format: 'R', opcode: 0x00, funct: 0x2B, operands: ['rd', 'rs', 'rt'], description: 'Set less than unsigned' },
+    { mnemonic: 'jr', format: 'R', opcode: 0x00, funct: 0x08, operands: ['rs'], description: 'Jump register' },
+    { mnemonic: 'jalr', format: 'R', opcode: 0x00, funct: 0x09, operands: ['rd', 'rs'], description: 'Jump and link register' },
+    { mnemonic: 'mult', format: 'R', opcode: 0x00, funct: 0x18, operands: ['rs', 'rt'], description: 'Multiply' },
+    { mnemonic: 'multu', format: 'R', opcode: 0x00, funct: 0x19, operands: ['rs', 'rt'], description: 'Multiply unsigned' },
+    { mnemonic: 'div', format: 'R', opcode: 0x00, funct: 0x1A, operands: ['rs', 'rt'], description: 'Divide' },
+    { mnemonic: 'divu', format: 'R', opcode: 0x00, funct: 0x1B, operands: ['rs', 'rt'], description: 'Divide unsigned' },
+    { mnemonic: 'mfhi', format: 'R', opcode: 0x00, funct: 0x10, operands: ['rd'], description: 'Move from HI' },
+    { mnemonic: 'mflo', format: 'R', opcode: 0x00, funct: 0x12, operands: ['rd'], description: 'Move from LO' },
+    { mnemonic: 'mthi', format: 'R', opcode: 0x00, funct: 0x11, operands: ['rs'], description: 'Move to HI' },
+    { mnemonic: 'mtlo', format: 'R', opcode: 0x00, funct: 0x13, operands: ['rs'], description: 'Move to LO' },
+    // I型指令
+    { mnemonic: 'addi', format: 'I', opcode: 0x08, operands: ['rt', 'rs', 'simmediate'], description: 'Add immediate' },
+    { mnemonic: 'addiu', format: 'I', opcode: 0x09, operands: ['rt', 'rs', 'simmediate'], description: 'Add immediate unsigned' },
+    { mnemonic: 'andi', format: 'I', opcode: 0x0C, operands: ['rt', 'rs', 'immediate'], description: 'AND immediate' },
+    { mnemonic: 'ori', format: 'I', opcode: 0x0D, operands: ['rt', 'rs', 'immediate'], description: 'OR immediate' },
+    { mnemonic: 'lui', format: 'I', opcode: 0x0F, operands: ['rt', 'immediate'], description: 'Load upper immediate' },
+    { mnemonic: 'lw', format: 'I', opcode: 0x23, operands: ['rt', 'offset(rs)'], description: 'Load word' },
+    { mnemonic: 'sw', format: 'I', opcode: 0x2B, operands: ['rt', 'offset(rs)'], description: 'Store word' },
+    { mnemonic: 'beq', format: 'I', opcode: 0x04, operands: ['rt', 'rs', 'label'], description: 'Branch if equal' },
+    { mnemonic: 'bne', format: 'I', opcode: 0x05, operands: ['rt', 'rs', 'label'], description: 'Branch if not equal' },
+    // J型指令
+    { mnemonic: 'j', format: 'J', opcode: 0x02, operands: ['target'], description: 'Jump' },
+    { mnemonic: 'jal', format: 'J', opcode: 0x03, operands: ['target'], description: 'Jump and link' },
+    // 特殊指令
+    { mnemonic: 'nop', format: 'R', opcode: 0x00, funct: 0x00, aliasOf: 'sll', operands: [], description: 'No operation' },
+    { mnemonic: 'syscall', format: 'R', opcode: 0x00, funct: 0x0C, operands: [], description: 'System call' },
+    { mnemonic: 'break', format: 'R', opcode: 0x00, funct: 0x0D, operands: [], description: 'Breakpoint' },
+    // CP0指令
+    { mnemonic: 'mfc0', format: 'CP0', opcode: 0x10, fields: { rs: 0x00 }, operands: ['rt', 'rd', 'sel'], description: 'Move from CP0' },
+    { mnemonic: 'mtc0', format: 'CP0', opcode: 0x10, fields: { rs: 0x04 }, operands: ['rt', 'rd', 'sel'], description: 'Move to CP0' },
+    { mnemonic: 'eret', format: 'CP0', opcode: 0x10, funct: 0x18, fields: { rs: 0x10 }, operands: [], description: 'Exception return' },
+    // 更多R型指令
+    { mnemonic: 'xor', format: 'R', opcode: 0x00, funct: 0x26, operands: ['rd', 'rs', 'rt'], description: 'Bitwise XOR' },
+    { mnemonic: 'nor', format: 'R', opcode: 0x00, funct: 0x27, operands: ['rd', 'rs', 'rt'], description: 'Bitwise NOR' },
+    { mnemonic: 'sll', format: 'R', opcode: 0x00, funct: 0x00, operands: ['rd', 'rt', 'shamt'], description: 'Shift left logical' },
+    { mnemonic: 'srl', format: 'R', opcode: 0x00, funct: 0x02, operands: ['rd', 'rt', 'shamt'], description: 'Shift right logical' },
+    { mnemonic: 'sra', format: 'R', opcode: 0x00, funct: 0x03, operands: ['rd', 'rt', 'shamt'], description: 'Shift right arithmetic' },
+    { mnemonic: 'sllv', format: 'R', opcode: 0x00, funct: 0x04, operands: ['rd', 'rt', 'rs'], description: 'Shift left logical variable' },
+    { mnemonic: 'srlv', format: 'R', opcode: 0x00, funct: 0x06, operands: ['rd', 'rt', 'rs'], description: 'Shift right logical variable' },
+    { mnemonic: 'srav', format: 'R', opcode: 0x00, funct: 0x07, operands: ['rd', 'rt', 'rs'], description: 'Shift right arithmetic variable' },
+    // 更多I型指令
+    { mnemonic: 'slti', format: 'I', opcode: 0x0A, operands: ['rt', 'rs', 'simmediate'], description: 'Set less than immediate' },
+    { mnemonic: 'lb', format: 'I', opcode: 0x20, operands: ['rt', 'offset(rs)'], description: 'Load byte' },
+    { mnemonic: 'sb', format: 'I', opcode: 0x28, operands: ['rt', 'offset(rs)'], description: 'Store byte' },
+    { mnemonic: 'lh', format: 'I', opcode: 0x21, operands: ['rt', 'offset(rs)'], description: 'Load halfword' },
+    { mnemonic: 'sh', format: 'I', opcode: 0x29, operands: ['rt', 'offset(rs)'], description: 'Store halfword' },
+    { mnemonic: 'lbu', format: 'I', opcode: 0x24, operands: ['rt', 'offset(rs)'], description: 'Load byte unsigned' },
+    { mnemonic: 'lhu', format: 'I', opcode: 0x25, operands: ['rt', 'offset(rs)'], description: 'Load halfword unsigned' },
+    { mnemonic: 'xori', format: 'I', opcode: 0x0E, operands: ['rt', 'rs', 'immediate'], description: 'XOR immediate' },
+    { mnemonic: 'sltiu', format: 'I', opcode: 0x0B, operands: ['rt', 'rs', 'simmediate'], description: 'Set less than immediate unsigned' },
+    // 分支指令
+    { mnemonic: 'blez', format: 'I', opcode: 0x06, operands: ['rs', 'label'], description: 'Branch if less than or equal to zero' },
+    { mnemonic: 'bgtz', format: 'I', opcode: 0x07, operands: ['rs', 'label'], description: 'Branch if greater than zero' },
+    { mnemonic: 'bltz', format: 'I', opcode: 0x01, fields: { rt: 0x00 }, operands: ['rs', 'label'], description: 'Branch if less than zero' },
+    { mnemonic: 'bgez', format: 'I', opcode: 0x01, fields: { rt: 0x01 }, operands: ['rs', 'label'], description: 'Branch if greater than or equal to zero' },
+    { mnemonic: 'bgezal', format: 'I', opcode: 0x01, fields: { rt: 0x11 }, operands: ['rs', 'label'], description: 'Branch if greater than or equal to zero and link' },
+    { mnemonic: 'bltzal', format: 'I', opcode: 0x01, fields: { rt: 0x10 }, operands: ['rs', 'label'], description: 'Branch if less than zero and link' }
+  ]
+};
+
+/**
+ * 由指令描述生成指令定义，描述有误时抛出错误
+ */
+export function createInstructionDefinition(description: CustomInstruction): InstructionDefinition {
+  const { mnemonic, format, encode, disassembly } = description;
+  if (!['R', 'I', 'J', 'CP0'].includes(format)) {
+    throw new Error(`${mnemonic}: unknown format '${format}' (expected R, I, J or CP0)`);
   }
-];
 
-// 指令查找表
-export const INSTRUCTION_LOOKUP = new Map<string, InstructionDefinition>();
+  const operands: OperandDefinition[] = [];
+  for (const field of description.operands) {
+    const definitions = OPERAND_FIELDS.get(field);
+    if (!definitions) {
+      throw new Error(`${mnemonic}: unknown operand field '${field}' (expected ${[...OPERAND_FIELDS.keys()].join(', ')})`);
+    }
+    operands.push(...definitions.map(definition => ({ ...definition })));
+  }
 
-// 初始化指令查找表
-INSTRUCTION_SET.forEach(instruction => {
-  INSTRUCTION_LOOKUP.set(instruction.mnemonic, instruction);
-});
+  if (encode !== undefined && typeof encode !== 'function') {
+    throw new Error(`${mnemonic}: encode must be a function`);
+  }
+  if (disassembly !== undefined) {
+    if (typeof disassembly !== 'string') {
+      throw new Error(`${mnemonic}: disassembly must be a string`);
+    }
+    for (const [, name] of disassembly.matchAll(DISASSEMBLY_PLACEHOLDER_PATTERN)) {
+      if (!operands.some(operand => operand.name === name)) {
+        throw new Error(`${mnemonic}: disassembly placeholder {${name}} is not an operand (expected ${operands.map(operand => operand.name).join(', ') || 'none'})`);
+      }
+    }
+  }
+
+  let type: InstructionType;
+  if (format === 'J') {
+    type = InstructionType.J_TYPE;
+  } else if (operands.length === 0) {
+    type = InstructionType.SPECIAL;
+  } else {
+    type = format === 'R' ? InstructionType.R_TYPE : InstructionType.I_TYPE;
+  }
+
+  return {
+    mnemonic,
+    type,
+    opcode: description.opcode,
+    ...(description.funct !== undefined ? { funct: description.funct } : {}),
+    ...(description.fields ? { fields: { ...description.fields } } : {}),
+    ...(description.aliasOf ? { aliasOf: description.aliasOf } : {}),
+    operands,
+    description: description.description || '',
+    encoding: format,
+    ...(encode ? { encode } : {}),
+    ...(disassembly !== undefined ? { disassembly } : {})
+  };
+}
+
+/**
+ * 由指令定义生成指令描述（createInstructionDefinition 的逆过程），用于生成指令集描述文件
+ */
+export function createInstructionDescription(definition: InstructionDefinition): InstructionDescription {
+  const operands: string[] = [];
+  for (let i = 0; i < definition.operands.length;) {
+    const field = [...OPERAND_FIELDS.entries()].find(([, fields]) =>
+      fields.every((field, j) => isSameOperand(field, definition.operands[i + j]))
+    );
+    if (!field) {
+      throw new Error(`${definition.mnemonic}: operand ${definition.operands[i].name} has no operand field`);
+    }
+    operands.push(field[0]);
+    i += field[1].length;
+  }
+
+  return {
+    mnemonic: definition.mnemonic,
+    format: definition.encoding,
+    opcode: definition.opcode,
+    ...(definition.funct !== undefined ? { funct: definition.funct } : {}),
+    ...(definition.fields ? { fields: { ...definition.fields } } : {}),
+    ...(definition.aliasOf ? { aliasOf: definition.aliasOf } : {}),
+    operands,
+    ...(definition.disassembly !== undefined ? { disassembly: definition.disassembly } : {}),
+    description: definition.description
+  };
+}
+
+function isSameOperand(a: OperandDefinition, b: OperandDefinition | undefined): boolean {
+  return !!b && a.type === b.type && a.name === b.name && a.bits === b.bits && a.position === b.position &&
+    a.required === b.required && !!a.signed === !!b.signed;
+}
+
+// 指令集定义（Minisys-1A 完整指令集）
+export const INSTRUCTION_SET: InstructionDefinition[] = MINISYS_1A.instructions!.map(createInstructionDefinition);
+
+// Minisys-1A 指令查找表（只读，汇编时使用的指令集见 isa.ts 的 InstructionSet）
+export const INSTRUCTION_LOOKUP: ReadonlyMap<string, InstructionDefinition> = new Map(
+  INSTRUCTION_SET.map(instruction => [instruction.mnemonic, instruction])
+);
 
 // 伪指令定义
+// 伪指令签名中的一个操作数：可以是几种操作数之一时写为数组（如 rol 的移位量可以是寄存器或立即数）
+export type PseudoOperandType = OperandType | OperandType[];
+
 export interface PseudoInstruction {
   mnemonic: string;
+  operands?: PseudoOperandType[]; // 操作数签名，展开模板中的 $1、$2... 依次对应这些操作数
   expansion: string[];
+  instructionCount?: number; // 展开后的指令条数，给出时必须与展开模板的行数一致
   description: string;
 }
 
 export const PSEUDO_INSTRUCTIONS: PseudoInstruction[] = [
   {
     mnemonic: 'move',
+    operands: [OperandType.REGISTER, OperandType.REGISTER],
     expansion: ['add $1, $2, $zero'],
     description: 'Move register'
   },
   {
     mnemonic: 'li',
+    operands: [OperandType.REGISTER, OperandType.IMMEDIATE],
     expansion: ['lui $1, immediate_high', 'ori $1, $1, immediate_low'],
     description: 'Load immediate'
   },
   {
     mnemonic: 'la',
+    operands: [OperandType.REGISTER, OperandType.LABEL],
     expansion: ['lui $1, %hi(address)', 'ori $1, $1, %lo(address)'],
     description: 'Load address'
   },
   {
     mnemonic: 'push',
+    operands: [OperandType.REGISTER],
     expansion: ['addiu $sp, $sp, -4', 'sw $1, 0($sp)'],
     description: 'Push to stack'
   },
   {
     mnemonic: 'pop',
+    operands: [OperandType.REGISTER],
     expansion: ['lw $1, 0($sp)', 'addiu $sp, $sp, 4'],
     description: 'Pop from stack'
   },
   {
     mnemonic: 'not',
+    operands: [OperandType.REGISTER, OperandType.REGISTER],
     expansion: ['nor $1, $2, $zero'],
     description: 'Bitwise NOT'
   },
   {
     mnemonic: 'neg',
+    operands: [OperandType.REGISTER, OperandType.REGISTER],
     expansion: ['sub $1, $zero, $2'],
     description: 'Negate'
   },
   {
     mnemonic: 'abs',
-    expansion: ['slt $at, $2, $zero', 'sub $1, $zero, $2', 'movn $1, $2, $at'],
+    operands: [OperandType.REGISTER, OperandType.REGISTER],
+    expansion: ['sra $at, $2, 31', 'xor $1, $2, $at', 'sub $1, $1, $at'],
     description: 'Absolute value'
   },
   {
     mnemonic: 'b',
+    operands: [OperandType.LABEL],
     expansion: ['j label'],
     description: 'Unconditional branch'
   },
   {
     mnemonic: 'bal',
+    operands: [OperandType.LABEL],
     expansion: ['jal label'],
     description: 'Branch and link'
   },
   {
     mnemonic: 'beqz',
+    operands: [OperandType.REGISTER, OperandType.LABEL],
     expansion: ['beq $1, $zero, label'],
     description: 'Branch if equal to zero'
   },
   {
     mnemonic: 'bnez',
+    operands: [OperandType.REGISTER, OperandType.LABEL],
     expansion: ['bne $1, $zero, label'],
     description: 'Branch if not equal to zero'
   },
   {
     mnemonic: 'bgt',
-    expansion: ['slt $at, $3, $2', 'bne $at, $zero, label'],
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.LABEL],
+    expansion: ['slt $at, $2, $1', 'bne $at, $zero, label'],
     description: 'Branch if greater than'
   },
   {
     mnemonic: 'bge',
-    expansion: ['slt $at, $2, $3', 'beq $at, $zero, label'],
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.LABEL],
+    expansion: ['slt $at, $1, $2', 'beq $at, $zero, label'],
     description: 'Branch if greater than or equal'
   },
   {
     mnemonic: 'blt',
-    expansion: ['slt $at, $2, $3', 'bne $at, $zero, label'],
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.LABEL],
+    expansion: ['slt $at, $1, $2', 'bne $at, $zero, label'],
     description: 'Branch if less than'
   },
   {
     mnemonic: 'ble',
-    expansion: ['slt $at, $3, $2', 'beq $at, $zero, label'],
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.LABEL],
+    expansion: ['slt $at, $2, $1', 'beq $at, $zero, label'],
     description: 'Branch if less than or equal'
   },
+  {
+    mnemonic: 'bgtu',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.LABEL],
+    expansion: ['sltu $at, $2, $1', 'bne $at, $zero, label'],
+    description: 'Branch if greater than (unsigned)'
+  },
+  {
+    mnemonic: 'bgeu',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.LABEL],
+    expansion: ['sltu $at, $1, $2', 'beq $at, $zero, label'],
+    description: 'Branch if greater than or equal (unsigned)'
+  },
+  {
+    mnemonic: 'bltu',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.LABEL],
+    expansion: ['sltu $at, $1, $2', 'bne $at, $zero, label'],
+    description: 'Branch if less than (unsigned)'
+  },
+  {
+    mnemonic: 'bleu',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.LABEL],
+    expansion: ['sltu $at, $2, $1', 'beq $at, $zero, label'],
+    description: 'Branch if less than or equal (unsigned)'
+  },
   {
     mnemonic: 'jg',
-    expansion: ['slt $at, $3, $2', 'bne $at, $zero, label'],
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.LABEL],
+    expansion: ['slt $at, $2, $1', 'bne $at, $zero, label'],
     description: 'Jump if greater than'
   },
   {
     mnemonic: 'jle',
-    expansion: ['slt $at, $2, $3', 'beq $at, $zero, label'],
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.LABEL],
+    expansion: ['slt $at, $2, $1', 'beq $at, $zero, label'],
     description: 'Jump if less than or equal'
+  },
+  {
+    mnemonic: 'mul',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.REGISTER],
+    expansion: ['mult $2, $3', 'mflo $1'],
+    description: 'Multiply (low 32 bits)'
+  },
+  {
+    mnemonic: 'rem',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.REGISTER],
+    expansion: ['div $2, $3', 'mfhi $1'],
+    description: 'Remainder'
+  },
+  {
+    mnemonic: 'seq',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.REGISTER],
+    expansion: ['xor $1, $2, $3', 'sltiu $1, $1, 1'],
+    description: 'Set if equal'
+  },
+  {
+    mnemonic: 'sne',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.REGISTER],
+    expansion: ['xor $1, $2, $3', 'sltu $1, $zero, $1'],
+    description: 'Set if not equal'
+  },
+  {
+    mnemonic: 'sge',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.REGISTER],
+    expansion: ['slt $1, $2, $3', 'xori $1, $1, 1'],
+    description: 'Set if greater than or equal'
+  },
+  {
+    mnemonic: 'sgt',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.REGISTER],
+    expansion: ['slt $1, $3, $2'],
+    description: 'Set if greater than'
+  },
+  {
+    mnemonic: 'sle',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.REGISTER],
+    expansion: ['slt $1, $3, $2', 'xori $1, $1, 1'],
+    description: 'Set if less than or equal'
+  },
+  {
+    mnemonic: 'rol',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, [OperandType.REGISTER, OperandType.IMMEDIATE]],
+    expansion: ['subu $at, $zero, $3', 'srlv $at, $2, $at', 'sllv $1, $2, $3', 'or $1, $1, $at'],
+    description: 'Rotate left (3 instructions for an immediate amount)'
+  },
+  {
+    mnemonic: 'ror',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, [OperandType.REGISTER, OperandType.IMMEDIATE]],
+    expansion: ['subu $at, $zero, $3', 'sllv $at, $2, $at', 'srlv $1, $2, $3', 'or $1, $1, $at'],
+    description: 'Rotate right (3 instructions for an immediate amount)'
+  },
+  {
+    mnemonic: 'subi',
+    operands: [OperandType.REGISTER, OperandType.REGISTER, OperandType.IMMEDIATE],
+    expansion: ['addi $1, $2, -immediate'],
+    description: 'Subtract immediate'
+  },
+  {
+    mnemonic: 'clear',
+    operands: [OperandType.REGISTER],
+    expansion: ['add $1, $zero, $zero'],
+    description: 'Clear register'
+  },
+  {
+    mnemonic: 'ulw',
+    operands: [OperandType.REGISTER, OperandType.ADDRESS],
+    expansion: [
+      'lbu $1, 0($2)', 'sll $1, $1, 8', 'lbu $at, 1($2)', 'or $1, $1, $at',
+      'sll $1, $1, 8', 'lbu $at, 2($2)', 'or $1, $1, $at',
+      'sll $1, $1, 8', 'lbu $at, 3($2)', 'or $1, $1, $at'
+    ],
+    description: 'Unaligned load word'
+  },
+  {
+    mnemonic: 'usw',
+    operands: [OperandType.REGISTER, OperandType.ADDRESS],
+    expansion: [
+      'srl $at, $1, 24', 'sb $at, 0($2)', 'srl $at, $1, 16', 'sb $at, 1($2)',
+      'srl $at, $1, 8', 'sb $at, 2($2)', 'sb $1, 3($2)'
+    ],
+    description: 'Unaligned store word'
   }
 ];
 
+// 展开模板中引用伪指令操作数的占位符：$1 到 $9（$10 及以上是寄存器编号）
+export const PLACEHOLDER_PATTERN = /\$([1-9])(?!\d)/g;
+
 // 伪指令查找表
 export const PSEUDO_INSTRUCTION_LOOKUP = new Map<string, PseudoInstruction>();
 
 PSEUDO_INSTRUCTIONS.forEach(pseudo => {
   PSEUDO_INSTRUCTION_LOOKUP.set(pseudo.mnemonic, pseudo);
 });
+
+/**
+ * 创建包含内置伪指令和自定义伪指令的查找表，自定义伪指令需先经过 validatePseudoInstructions 检查
+ */
+export function createPseudoInstructionLookup(pseudoInstructions: PseudoInstruction[] = []): Map<string, PseudoInstruction> {
+  const lookup = new Map(PSEUDO_INSTRUCTION_LOOKUP);
+  pseudoInstructions.forEach(pseudo => lookup.set(pseudo.mnemonic, pseudo));
+  return lookup;
+}
+
+/**
+ * 检查伪指令的展开模板：每条展开指令必须是指令集中的真实指令，且操作数个数与指令定义一致；
+ * 给出操作数签名时，模板中的 $1、$2...、label 和 immediate 占位符必须有对应的操作数；
+ * 给出指令条数时必须与模板行数一致
+ * @param instructions 展开使用的指令集，默认为 Minisys-1A
+ * 返回发现的问题列表
+ */
+export function validatePseudoInstructions(
+  pseudoInstructions: PseudoInstruction[],
+  instructions: ReadonlyMap<string, InstructionDefinition> = INSTRUCTION_LOOKUP
+): string[] {
+  const problems: string[] = [];
+  for (const pseudo of pseudoInstructions) {
+    if (pseudo.instructionCount !== undefined && pseudo.instructionCount !== pseudo.expansion.length) {
+      problems.push(`${pseudo.mnemonic}: instructionCount is ${pseudo.instructionCount}, but the expansion has ${pseudo.expansion.length} instruction(s)`);
+    }
+
+    for (const line of pseudo.expansion) {
+      const [mnemonic, ...rest] = line.trim().split(/\s+/);
+      const definition = instructions.get(mnemonic);
+      if (!definition) {
+        problems.push(`${pseudo.mnemonic}: '${line}' uses unknown instruction ${mnemonic}`);
+        continue;
+      }
+      
+      // 源代码中 offset(rs) 合写为一个操作数
+      const operandText = rest.join(' ').trim();
+      const count = operandText ? operandText.split(',').length : 0;
+      const operands = definition.operands.filter((operand, index) => definition.operands[index - 1]?.type !== OperandType.OFFSET);
+      const required = operands.filter(operand => operand.required).length;
+      if (count < required || count > operands.length) {
+        const expected = required === operands.length ? `${required}` : `${required} to ${operands.length}`;
+        problems.push(`${pseudo.mnemonic}: '${line}' has ${count} operand(s), ${mnemonic} expects ${expected}`);
+      }
+
+      problems.push(...validateTemplateRegisters(pseudo, line, operandText));
+      if (pseudo.operands) {
+        problems.push(...validatePlaceholders(pseudo, pseudo.operands, line, operandText));
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * 检查展开模板一行中的寄存器：编号为 $0..$31（$1 到 $9 是占位符），名称必须是通用寄存器
+ */
+function validateTemplateRegisters(pseudo: PseudoInstruction, line: string, operandText: string): string[] {
+  const names = new Set(REGISTER_NAMES.values());
+  const problems: string[] = [];
+  for (const [register, name] of operandText.matchAll(/\$(\w+)/g)) {
+    const valid = /^\d+$/.test(name) ? Number(name) <= 31 : names.has(name.toLowerCase());
+    if (!valid) {
+      problems.push(`${pseudo.mnemonic}: '${line}' uses unknown register ${register}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * 检查展开模板一行中的占位符是否都有操作数签名中的对应操作数
+ */
+function validatePlaceholders(pseudo: PseudoInstruction, signature: PseudoOperandType[], line: string, operandText: string): string[] {
+  const problems: string[] = [];
+  const types = signature.flat();
+  for (const match of operandText.matchAll(PLACEHOLDER_PATTERN)) {
+    const index = Number(match[1]);
+    if (index > signature.length) {
+      problems.push(`${pseudo.mnemonic}: '${line}' refers to operand $${index}, but ${pseudo.mnemonic} takes ${signature.length} operand(s)`);
+    }
+  }
+  if (/\blabel\b/.test(operandText) && !types.includes(OperandType.LABEL)) {
+    problems.push(`${pseudo.mnemonic}: '${line}' uses label, but ${pseudo.mnemonic} has no label operand`);
+  }
+  if (/\bimmediate(_high|_low)?\b/.test(operandText) && !types.includes(OperandType.IMMEDIATE)) {
+    problems.push(`${pseudo.mnemonic}: '${line}' uses immediate, but ${pseudo.mnemonic} has no immediate operand`);
+  }
+  return problems;
+}
+
+// 启动时检查内置伪指令，避免展开为指令集中不存在的指令
+const PSEUDO_INSTRUCTION_PROBLEMS = validatePseudoInstructions(PSEUDO_INSTRUCTIONS);
+if (PSEUDO_INSTRUCTION_PROBLEMS.length > 0) {
+  throw new Error(`Invalid pseudo instruction definitions:\n${PSEUDO_INSTRUCTION_PROBLEMS.join('\n')}`);
+}
@@ -0,0 +1,378 @@
+/**
+ * 指令集变体
+ * 按指令集描述（内置变体名或 JSON 描述文件）加载指令集，
+ * 并根据指令定义译码机器码，同一个指令集供解析器、编码器和反汇编器共用
+ */
+
+import * as fs from 'fs';
+import { OperandType } from './types';
+import {
+  DISASSEMBLY_PLACEHOLDER_PATTERN,
+  INSTRUCTION_FIELDS,
+  INSTRUCTION_SET,
+  InstructionDefinition,
+  InstructionDescription,
+  InstructionSetDescription,
+  MINISYS_1A,
+  OperandDefinition,
+  createInstructionDefinition
+} from './instruction-set';
+
+// 默认指令集
+export const DEFAULT_INSTRUCTION_SET = 'minisys-1a';
+
+// Minisys-1：Minisys-1A 去掉乘除、CP0、异常、字节/半字访存和与零比较的分支指令
+const MINISYS_1: InstructionSetDescription = {
+  name: 'Minisys-1',
+  base: 'minisys-1a',
+  remove: [
+    'mult', 'multu', 'div', 'divu', 'mfhi', 'mflo', 'mthi', 'mtlo',
+    'mfc0', 'mtc0', 'eret', 'syscall', 'break', 'jalr',
+    'lb', 'lbu', 'lh', 'lhu', 'sb', 'sh',
+    'bgez', 'bgtz', 'blez', 'bltz', 'bgezal', 'bltzal'
+  ]
+};
+
+// 内置指令集变体
+const BUILTIN_INSTRUCTION_SETS: Map<string, InstructionSetDescription> = new Map([
+  ['minisys-1a', MINISYS_1A],
+  ['minisys-1', MINISYS_1]
+]);
+
+// 译码结果中的操作数：寄存器为编号，立即数和偏移量按字段符号扩展，标签为目标地址
+export interface DecodedOperand {
+  definition: OperandDefinition;
+  value: number;
+}
+
+// 译码结果
+export interface DecodedInstruction {
+  definition: InstructionDefinition;
+  operands: DecodedOperand[];
+}
+
+// 译码表中的一项：指令定义及其固定位
+interface DecodeEntry {
+  definition: InstructionDefinition;
+  mask: number;
+  value: number;
+}
+
+/**
+ * 指令集：汇编和反汇编使用的指令定义，每个汇编器持有自己的指令集，
+ * 切换指令集或注册指令只影响该汇编器
+ */
+export class InstructionSet {
+  public readonly name: string;
+  public readonly instructions: ReadonlyMap<string, InstructionDefinition>;
+  private decodeTable: DecodeEntry[] | null = null; // 按固定位数从多到少排列，首次译码时生成
+
+  constructor(name: string, definitions: InstructionDefinition[]) {
+    this.name = name;
+    this.instructions = new Map(definitions.map(definition => [definition.mnemonic, definition]));
+  }
+
+  /**
+   * 返回增加了指令的新指令集（如 AdvancedAssembler.registerInstruction 注册的指令），原指令集不变
+   * 助记符重名、字段有误或编码与已有指令冲突时抛出错误
+   */
+  public withInstructions(definitions: InstructionDefinition[]): InstructionSet {
+    if (definitions.length === 0) {
+      return this;
+    }
+
+    const problems: string[] = [];
+    const mnemonics = new Set<string>();
+    for (const definition of definitions) {
+      if (this.instructions.has(definition.mnemonic) || mnemonics.has(definition.mnemonic)) {
+        problems.push(`${definition.mnemonic}: conflicts with the instruction ${definition.mnemonic}`);
+      }
+      mnemonics.add(definition.mnemonic);
+      problems.push(...validateFieldValues(definition));
+    }
+    if (problems.length === 0) {
+      // 新指令排在已有指令之后，冲突都报告在新指令上
+      problems.push(...findEncodingConflicts([...this.instructions.values(), ...definitions]));
+    }
+    if (problems.length > 0) {
+      throw new Error(`Cannot add instructions to ${this.name}:\n${problems.join('\n')}`);
+    }
+
+    return new InstructionSet(this.name, [...this.instructions.values(), ...definitions]);
+  }
+
+  /**
+   * 译码机器码，没有匹配的指令时返回undefined
+   * @param address 指令地址，用于计算分支和跳转的目标地址
+   */
+  public decode(word: number, address: number): DecodedInstruction | undefined {
+    if (!this.decodeTable) {
+      this.decodeTable = createDecodeTable([...this.instructions.values()]);
+    }
+
+    const entry = this.decodeTable.find(candidate => ((word & candidate.mask) >>> 0) === candidate.value);
+    if (!entry) {
+      return undefined;
+    }
+
+    const operands = entry.definition.operands.map(operand => ({
+      definition: operand,
+      value: decodeOperand(word, address, operand)
+    }));
+    return { definition: entry.definition, operands };
+  }
+}
+
+// Minisys-1A 指令集（未指定指令集时使用）
+export const MINISYS_1A_INSTRUCTION_SET = new InstructionSet(MINISYS_1A.name, INSTRUCTION_SET);
+
+/**
+ * 获取内置指令集变体的名称
+ */
+export function getBuiltinInstructionSets(): string[] {
+  return [...BUILTIN_INSTRUCTION_SETS.keys()];
+}
+
+/**
+ * 加载指令集：name 为内置变体名（如 minisys-1）或指令集描述文件（JSON）
+ * 描述有误时抛出错误
+ */
+export function loadInstructionSet(name: string = DEFAULT_INSTRUCTION_SET): InstructionSet {
+  const description = BUILTIN_INSTRUCTION_SETS.get(name.toLowerCase()) ?? loadInstructionSetDescription(name);
+  return new InstructionSet(description.name, resolveInstructionSet(description));
+}
+
+/**
+ * 读取指令集描述文件
+ */
+export function loadInstructionSetDescription(file: string): InstructionSetDescription {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Unknown instruction set: ${file} (expected ${getBuiltinInstructionSets().join(', ')} or a description file)`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid instruction set description ${file}: ${error.message}`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid instruction set description ${file}: expected an object with a name and an instructions array`);
+  }
+
+  // 各条指令的字段在 resolveInstructionSet 中检查
+  const { name, base, remove, instructions } = data as { [key: string]: unknown };
+  if (typeof name !== 'string' || (instructions !== undefined && !Array.isArray(instructions))) {
+    throw new Error(`Invalid instruction set description ${file}: expected an object with a name and an instructions array`);
+  }
+  if (base !== undefined && typeof base !== 'string') {
+    throw new Error(`Invalid instruction set description ${file}: base must be the name of a built-in instruction set`);
+  }
+  if (remove !== undefined && !(Array.isArray(remove) && remove.every(mnemonic => typeof mnemonic === 'string'))) {
+    throw new Error(`Invalid instruction set description ${file}: remove must be an array of mnemonics`);
+  }
+  return {
+    name,
+    base: base as string | undefined,
+    remove: remove as string[] | undefined,
+    instructions: instructions as InstructionDescription[] | undefined
+  };
+}
+
+/**
+ * 由指令集描述生成指令定义：先取基础指令集，再删除、替换或增加指令，最后检查编码冲突
+ */
+export function resolveInstructionSet(description: InstructionSetDescription): InstructionDefinition[] {
+  const definitions = new Map<string, InstructionDefinition>();
+
+  if (description.base) {
+    const base = BUILTIN_INSTRUCTION_SETS.get(description.base.toLowerCase());
+    if (!base) {
+      throw new Error(`${description.name}: unknown base instruction set ${description.base}`);
+    }
+    resolveInstructionSet(base).forEach(definition => definitions.set(definition.mnemonic, definition));
+  }
+
+  for (const mnemonic of description.remove || []) {
+    if (!definitions.delete(mnemonic)) {
+      throw new Error(`${description.name}: cannot remove ${mnemonic}, it is not in the base instruction set`);
+    }
+  }
+
+  const problems: string[] = [];
+  for (const [index, instruction] of (description.instructions || []).entries()) {
+    if (typeof instruction?.mnemonic !== 'string' || !Number.isInteger(instruction.opcode) || !Array.isArray(instruction.operands)) {
+      problems.push(`Instruction ${index + 1}: expected mnemonic, format, opcode and operands`);
+      continue;
+    }
+    try {
+      const definition = createInstructionDefinition(instruction);
+      problems.push(...validateFieldValues(definition));
+      definitions.set(definition.mnemonic, definition);
+    } catch (error) {
+      problems.push(error.message);
+    }
+  }
+
+  const resolved = [...definitions.values()];
+  if (problems.length === 0) {
+    // 字段有误时编码冲突的报告没有意义
+    problems.push(...findEncodingConflicts(resolved));
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid instruction set ${description.name}:\n${problems.join('\n')}`);
+  }
+  return resolved;
+}
+
+/**
+ * 查找编码冲突：两条指令的固定位（操作码、功能码和固定字段）在双方都固定的位上取值相同
+ * 时，同一个机器码可以译码为其中任何一条
+ */
+export function findEncodingConflicts(definitions: InstructionDefinition[]): string[] {
+  const problems: string[] = [];
+  const encodings = definitions.map(definition => ({ definition, ...getFixedBits(definition) }));
+
+  encodings.forEach((a, i) => {
+    for (const b of encodings.slice(i + 1)) {
+      if (a.definition.aliasOf === b.definition.mnemonic || b.definition.aliasOf === a.definition.mnemonic) {
+        continue;
+      }
+      if (((a.value ^ b.value) & a.mask & b.mask) === 0) {
+        problems.push(`${b.definition.mnemonic}: encoding conflicts with ${a.definition.mnemonic} (${describeEncoding(b.definition)})`);
+      }
+    }
+  });
+  return problems;
+}
+
+/**
+ * 生成译码表：操作数以外的位必须与固定位一致（未使用的位为0）；
+ * 自定义编码回调可能使用任何位，只比较固定位
+ */
+function createDecodeTable(definitions: InstructionDefinition[]): DecodeEntry[] {
+  return definitions
+    .map(definition => {
+      const { mask, value } = getFixedBits(definition);
+      if (definition.encode) {
+        return { definition, mask, value };
+      }
+      const operandMask = definition.operands.reduce((bits, operand) => bits | fieldMask(operand.position, operand.bits), 0);
+      return { definition, mask: (~operandMask | mask) >>> 0, value };
+    })
+    .sort((a, b) => countBits(b.mask) - countBits(a.mask));
+}
+
+/**
+ * 格式化译码结果：有反汇编写法时替换其中的占位符，否则按操作数顺序输出，
+ * offset 和 rs 合写为 offset(rs)，值为0的可选操作数（如 sel）省略
+ * @param formatOperand 各反汇编器自己的操作数写法
+ */
+export function formatDecodedInstruction(decoded: DecodedInstruction, formatOperand: (operand: DecodedOperand) => string): string {
+  const { operands } = decoded;
+  if (decoded.definition.disassembly !== undefined) {
+    return decoded.definition.disassembly.replace(DISASSEMBLY_PLACEHOLDER_PATTERN, (placeholder, name) => {
+      const operand = operands.find(candidate => candidate.definition.name === name);
+      return operand ? formatOperand(operand) : placeholder;
+    });
+  }
+
+  const parts: string[] = [];
+  for (let i = 0; i < operands.length; i++) {
+    const operand = operands[i];
+    if (operand.definition.type === OperandType.OFFSET && operands[i + 1]) {
+      parts.push(`${formatOperand(operand)}(${formatOperand(operands[i + 1])})`);
+      i++;
+      continue;
+    }
+    if (!operand.definition.required && operand.value === 0) {
+      continue;
+    }
+    parts.push(formatOperand(operand));
+  }
+  return parts.length > 0 ? `${decoded.definition.mnemonic} ${parts.join(', ')}` : decoded.definition.mnemonic;
+}
+
+/**
+ * 指令的固定位：操作码、功能码（如有）和固定字段
+ */
+function getFixedBits(definition: InstructionDefinition): { mask: number; value: number } {
+  let mask = 0;
+  let value = 0;
+  for (const [name, fieldValue] of getFixedFields(definition)) {
+    const field = INSTRUCTION_FIELDS.get(name);
+    if (!field) {
+      continue;
+    }
+    mask |= fieldMask(field.position, field.bits);
+    value |= (fieldValue & ((1 << field.bits) - 1)) << field.position;
+  }
+  return { mask: mask >>> 0, value: value >>> 0 };
+}
+
+/**
+ * 指令的固定字段及其取值：操作码、功能码（如有）和 fields 中的字段
+ */
+function getFixedFields(definition: InstructionDefinition): [string, number][] {
+  const fields: [string, number][] = [['op', definition.opcode]];
+  if (definition.funct !== undefined) {
+    fields.push(['funct', definition.funct]);
+  }
+  return [...fields, ...Object.entries(definition.fields || {})];
+}
+
+/**
+ * 检查操作码、功能码和固定字段的名称和取值范围
+ */
+function validateFieldValues(definition: InstructionDefinition): string[] {
+  const problems: string[] = [];
+  for (const [name, value] of getFixedFields(definition)) {
+    const field = INSTRUCTION_FIELDS.get(name);
+    if (!field) {
+      problems.push(`${definition.mnemonic}: unknown field ${name} (expected ${[...INSTRUCTION_FIELDS.keys()].join(', ')})`);
+    } else if (!Number.isInteger(value) || value < 0 || value >= 1 << field.bits) {
+      problems.push(`${definition.mnemonic}: ${name} ${value} out of range (expected 0..${(1 << field.bits) - 1})`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * 编码的文字描述，如 op=0x1, rt=0x1
+ */
+function describeEncoding(definition: InstructionDefinition): string {
+  return getFixedFields(definition).map(([name, value]) => `${name}=0x${value.toString(16)}`).join(', ');
+}
+
+/**
+ * 从机器码中取出操作数的值
+ */
+function decodeOperand(word: number, address: number, operand: OperandDefinition): number {
+  const raw = (word >>> operand.position) & ((2 ** operand.bits) - 1);
+
+  if (operand.type === OperandType.LABEL) {
+    if (operand.bits === 26) {
+      // 跳转目标：PC[31:28] || target || 00
+      return (((address >>> 28) << 28) | (raw << 2)) >>> 0;
+    }
+    // 分支目标：PC + 4 + (offset << 2)
+    return address + 4 + (signExtend(raw, operand.bits) << 2);
+  }
+  return operand.signed ? signExtend(raw, operand.bits) : raw;
+}
+
+function signExtend(value: number, bits: number): number {
+  return (value << (32 - bits)) >> (32 - bits);
+}
+
+function fieldMask(position: number, bits: number): number {
+  return (((2 ** bits) - 1) * (2 ** position)) | 0;
+}
+
+function countBits(value: number): number {
+  let count = 0;
+  for (let bits = value >>> 0; bits !== 0; bits >>>= 1) {
+    count += bits & 1;
+  }
+  return count;
+}
@@ -3,6 +3,9 @@
  * 定义汇编器的基础数据类型和接口
  */
 
+import { PseudoInstruction } from './instruction-set';
+import { InstructionSet } from './isa';
+
 // 基础类型定义
 export type Byte = number;
 export type Word = number;
@@ -26,6 +29,13 @@ export enum OperandType {
   OFFSET = 'OFFSET'
 }
 
+// 常量表达式节点
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'symbol'; name: string }
+  | { type: 'unary'; operator: string; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
 // 操作数接口
 export interface Operand {
   type: OperandType;
@@ -35,6 +45,8 @@ export interface Operand {
   label?: string;
   address?: Address;
   offset?: number;
+  expression?: ExpressionNode; // 引用了标签的表达式，推迟到编码阶段求值
+  cp0?: boolean; // 以名称书写的 CP0 寄存器（如 $status），只能用作 mfc0/mtc0 的 rd
 }
 
 // 指令接口
@@ -48,6 +60,14 @@ export interface Instruction {
   address?: Address;
   lineNumber: number;
   sourceLine: string;
+  macro?: MacroExpansionInfo;
+  relaxed?: boolean; // 分支目标超出范围，改写为反向短分支跳过 j（分支松弛）
+}
+
+// 宏展开来源：调用点行号之外，记录对应的宏体行
+export interface MacroExpansionInfo {
+  macroName: string;
+  lineNumber: number;
 }
 
 // 标签定义
@@ -58,12 +78,25 @@ export interface Label {
   isGlobal: boolean;
 }
 
+// 符号常量（.equ/.set/.eqv定义）
+export interface SymbolConstant {
+  name: string;
+  value: number;
+  lineNumber: number;
+  reassignable: boolean; // .set 定义的常量允许重新赋值
+}
+
+// 数据值：数字、字符串，或推迟到编码阶段求值的表达式
+export type DataValue = number | string | ExpressionNode;
+
 // 数据定义
 export interface DataDefinition {
-  type: 'byte' | 'word' | 'half' | 'ascii' | 'space';
-  values: (number | string)[];
+  type: 'byte' | 'word' | 'half' | 'ascii' | 'asciiz' | 'space';
+  values: DataValue[];
   address: Address;
   size: number;
+  lineNumber?: number;
+  macro?: MacroExpansionInfo;
 }
 
 // 段定义
@@ -80,26 +113,45 @@ export interface Segment {
 export interface AssemblyContext {
   segments: Map<string, Segment>;
   globalLabels: Map<string, Label>;
+  constants: Map<string, SymbolConstant>;
+  sourceMap?: SourceLocation[]; // 展开后源代码每一行对应的原始位置
   currentSegment: string;
   programCounter: Address;
   userAppOffset?: Address; // 用户程序地址偏移（链接模式下使用）
+  pseudoInstructions?: Map<string, PseudoInstruction>; // 可用的伪指令（含自定义伪指令），未设置时只有内置伪指令
+  instructionSet?: InstructionSet; // 使用的指令集（含注册的指令），未设置时为 Minisys-1A
   errors: AssemblyError[];
   warnings: AssemblyWarning[];
 }
 
+// 源代码位置（文件名和行号）
+export interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+// 带行号映射的源代码（多个文件拼接或展开 .include 之后）
+export interface MappedSource {
+  source: string;
+  sourceMap: SourceLocation[]; // sourceMap[i] 为第 i+1 行的原始位置
+}
+
 // 错误类型
 export interface AssemblyError {
   type: 'SYNTAX' | 'SEMANTIC' | 'LINKING' | 'RUNTIME';
   message: string;
+  file?: string; // 错误所在的源文件（.include 展开后映射回原始文件）
   lineNumber: number;
   column?: number;
   sourceLine?: string;
+  macro?: MacroExpansionInfo;
 }
 
 // 警告类型
 export interface AssemblyWarning {
   type: 'OPTIMIZATION' | 'COMPATIBILITY' | 'STYLE';
   message: string;
+  file?: string;
   lineNumber: number;
   column?: number;
   sourceLine?: string;
@@ -157,6 +209,11 @@ export const REGISTER_NAMES = new Map<number, string>([
   [28, 'gp'], [29, 'sp'], [30, 'fp'], [31, 'ra']
 ]);
 
+// CP0 寄存器名称映射（mfc0/mtc0 的 rd，寄存器号与 MIPS32 相同）
+export const CP0_REGISTER_NAMES = new Map<number, string>([
+  [9, 'count'], [11, 'compare'], [12, 'status'], [13, 'cause'], [14, 'epc']
+]);
+
 // 内存布局常量
 export const MEMORY_LAYOUT = {
   INSTRUCTION_START: 0x00000000,
@@ -3,30 +3,46 @@
  * 处理宏指令的展开
  */
 
-import { AssemblyContext } from '../core/types';
-
 export interface MacroDefinition {
   name: string;
   parameters: string[];
   body: string[];
+  lineNumber?: number; // .macro 所在行，内置宏为空
 }
 
 export class MacroExpander {
   private macros: Map<string, MacroDefinition> = new Map();
+  private expansionCount: number = 0;
 
   /**
    * 定义宏
    */
-  public defineMacro(name: string, parameters: string[], body: string[]): void {
+  public defineMacro(name: string, parameters: string[], body: string[], lineNumber?: number): void {
     this.macros.set(name, {
       name,
       parameters,
-      body
+      body,
+      lineNumber
     });
   }
 
+  /**
+   * 获取宏定义
+   */
+  public getMacro(name: string): MacroDefinition | undefined {
+    return this.macros.get(name);
+  }
+
+  /**
+   * 检查宏是否已定义
+   */
+  public hasMacro(name: string): boolean {
+    return this.macros.has(name);
+  }
+
   /**
    * 展开宏调用
+   * 宏体中的 \@ 会被替换为本次展开的唯一编号，用于生成不重复的内部标签
    */
   public expandMacro(macroName: string, args: string[]): string[] {
     const macro = this.macros.get(macroName);
@@ -39,6 +55,7 @@ export class MacroExpander {
     }
 
     const expandedLines: string[] = [];
+    const uniqueSuffix = (this.expansionCount++).toString();
     
     for (const line of macro.body) {
       let expandedLine = line;
@@ -48,9 +65,12 @@ export class MacroExpander {
         const param = macro.parameters[i];
         const arg = args[i];
         const regex = new RegExp(`\\b${param}\\b`, 'g');
-        expandedLine = expandedLine.replace(regex, arg);
+        expandedLine = expandedLine.replace(regex, () => arg);
       }
       
+      // 替换唯一后缀
+      expandedLine = expandedLine.replace(/\\@/g, uniqueSuffix);
+      
       expandedLines.push(expandedLine);
     }
 
@@ -129,9 +149,9 @@ export class MacroExpander {
     // 延时宏
     this.defineMacro('delay', ['count'], [
       'addi $t0, $zero, count',
-      'delay_loop:',
+      'delay_loop\\@:',
       'addi $t0, $t0, -1',
-      'bne $t0, $zero, delay_loop'
+      'bne $t0, $zero, delay_loop\\@'
     ]);
 
     // 保存寄存器宏
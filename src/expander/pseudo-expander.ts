@@ -3,8 +3,23 @@
  * 将伪指令展开为真实指令
  */
 
-import { Instruction, Operand, OperandType, AssemblyContext } from '../core/types';
-import { PSEUDO_INSTRUCTION_LOOKUP, INSTRUCTION_LOOKUP } from '../core/instruction-set';
+import { Instruction, Operand, OperandType, AssemblyContext, REGISTER_NAMES } from '../core/types';
+import { PSEUDO_INSTRUCTION_LOOKUP, InstructionDefinition, PseudoInstruction } from '../core/instruction-set';
+import { MINISYS_1A_INSTRUCTION_SET } from '../core/isa';
+
+// 分支松弛时使用的反向分支
+export const INVERTED_BRANCHES: Map<string, string> = new Map([
+  ['beq', 'bne'],
+  ['bne', 'beq'],
+  ['blez', 'bgtz'],
+  ['bgtz', 'blez'],
+  ['bltz', 'bgez'],
+  ['bgez', 'bltz']
+]);
+
+// 展开时使用的固定寄存器
+const ZERO_REGISTER: Operand = { type: OperandType.REGISTER, value: '$zero', register: 0 };
+const AT_REGISTER: Operand = { type: OperandType.REGISTER, value: '$at', register: 1 };
 
 export class PseudoExpander {
   private context?: AssemblyContext;
@@ -15,176 +30,299 @@ export class PseudoExpander {
 
   /**
    * 展开伪指令
+   * 标记为分支松弛的指令中，条件分支改写为反向短分支跳过一条 j 指令
    */
   public expandPseudoInstruction(instruction: Instruction): Instruction[] {
-    const pseudoDef = PSEUDO_INSTRUCTION_LOOKUP.get(instruction.mnemonic);
+    const expanded = this.expand(instruction);
+    return instruction.relaxed ? expanded.flatMap(inst => this.relaxBranch(inst)) : expanded;
+  }
+
+  /**
+   * 将条件分支改写为反向分支加 j：
+   *   beq $t0, $t1, far  ->  bne $t0, $t1, 1
+   *                          j   far
+   */
+  private relaxBranch(instruction: Instruction): Instruction[] {
+    const inverted = INVERTED_BRANCHES.get(instruction.mnemonic);
+    const target = instruction.operands[instruction.operands.length - 1];
+    if (!inverted || !target || target.type !== OperandType.LABEL || !target.label) {
+      return [instruction];
+    }
+    
+    const registers = instruction.operands.slice(0, -1);
+    const skip: Operand = { type: OperandType.IMMEDIATE, value: '1', immediate: 1 };
+    return [
+      {
+        ...instruction,
+        mnemonic: inverted,
+        operands: [...registers, skip],
+        type: this.getInstructionType(inverted),
+        sourceLine: `${inverted} ${registers.map(operand => operand.value).join(', ')}, 1`
+      },
+      {
+        ...instruction,
+        mnemonic: 'j',
+        operands: [target],
+        type: this.getInstructionType('j'),
+        sourceLine: `j ${target.label}`
+      }
+    ];
+  }
+
+  /**
+   * 展开单条伪指令（非伪指令原样返回）
+   */
+  private expand(instruction: Instruction): Instruction[] {
+    // 以标签或绝对地址访存（lw $t0, label）经 $at 展开
+    if (this.isAbsoluteMemoryAccess(instruction)) {
+      return this.expandAbsoluteMemoryAccess(instruction);
+    }
+    
+    // 指令集中的真实指令优先于同名伪指令
+    const pseudoDef = this.getInstructionDefinition(instruction.mnemonic)
+      ? undefined
+      : (this.context?.pseudoInstructions ?? PSEUDO_INSTRUCTION_LOOKUP).get(instruction.mnemonic);
     if (!pseudoDef) {
       return [instruction]; // 不是伪指令，直接返回
     }
 
-    const expandedInstructions: Instruction[] = [];
+    // 特殊处理li/la指令（装入32位值）
+    if ((instruction.mnemonic === 'li' || instruction.mnemonic === 'la') && instruction.operands.length >= 2) {
+      return this.expandLoadValue(instruction);
+    }
     
-    // 特殊处理li指令（需要优化：16位内用addi，否则用lui+ori）
-    if (instruction.mnemonic === 'li' && instruction.operands.length >= 2) {
-      const targetReg = instruction.operands[0];
-      const immediate = instruction.operands[1];
-      
-      if (immediate.type === OperandType.IMMEDIATE && immediate.immediate !== undefined) {
-        const value = immediate.immediate;
-        
-        // 如果立即数在16位范围内，使用addi
-        if (value >= -32768 && value <= 32767) {
-          expandedInstructions.push({
-            mnemonic: 'addi',
-            operands: [targetReg, { type: OperandType.REGISTER, value: '$zero', register: 0 }, immediate],
-            type: 'I_TYPE' as any,
-            opcode: 0x08,
-            lineNumber: instruction.lineNumber,
-            sourceLine: `addi ${targetReg.value}, $zero, ${value}`
-          });
-          return expandedInstructions;
-        }
-        // 否则继续使用统一的占位符替换机制处理
-      }
+    // 特殊处理需要计算立即数或偏移量的伪指令
+    if (instruction.mnemonic === 'subi' && instruction.operands.length >= 3) {
+      return this.expandSubtractImmediate(instruction);
+    }
+    if ((instruction.mnemonic === 'rol' || instruction.mnemonic === 'ror') && instruction.operands.length >= 3) {
+      return this.expandRotate(instruction);
+    }
+    if (instruction.mnemonic === 'ulw' && instruction.operands.length >= 2) {
+      return this.expandUnalignedLoad(instruction);
+    }
+    if (instruction.mnemonic === 'usw' && instruction.operands.length >= 2) {
+      return this.expandUnalignedStore(instruction);
     }
     
-    // 特殊处理push/pop指令（需要特殊的内存地址格式）
-    if (instruction.mnemonic === 'push' && instruction.operands.length >= 1) {
-      // 处理push指令
-      const reg = instruction.operands[0];
-      expandedInstructions.push({
-        mnemonic: 'addiu',
-        operands: [
-          { type: OperandType.REGISTER, value: '$sp', register: 29 },
-          { type: OperandType.REGISTER, value: '$sp', register: 29 },
-          { type: OperandType.IMMEDIATE, value: '-4', immediate: -4 }
-        ],
-        type: 'I_TYPE' as any,
-        opcode: 0x09,
-        lineNumber: instruction.lineNumber,
-        sourceLine: `addiu $sp, $sp, -4`
-      });
-      expandedInstructions.push({
-        mnemonic: 'sw',
-        operands: [
-          reg,
-          { type: OperandType.ADDRESS, value: '0($sp)', offset: 0, register: 29 }
-        ],
-        type: 'I_TYPE' as any,
-        opcode: 0x2B,
-        lineNumber: instruction.lineNumber,
-        sourceLine: `sw ${reg.value}, 0($sp)`
-      });
-    } else if (instruction.mnemonic === 'pop' && instruction.operands.length >= 1) {
-      // 处理pop指令
-      const reg = instruction.operands[0];
-      expandedInstructions.push({
-        mnemonic: 'lw',
-        operands: [
-          reg,
-          { type: OperandType.ADDRESS, value: '0($sp)', offset: 0, register: 29 }
-        ],
-        type: 'I_TYPE' as any,
-        opcode: 0x23,
-        lineNumber: instruction.lineNumber,
-        sourceLine: `lw ${reg.value}, 0($sp)`
-      });
-      expandedInstructions.push({
-        mnemonic: 'addiu',
-        operands: [
-          { type: OperandType.REGISTER, value: '$sp', register: 29 },
-          { type: OperandType.REGISTER, value: '$sp', register: 29 },
-          { type: OperandType.IMMEDIATE, value: '4', immediate: 4 }
-        ],
-        type: 'I_TYPE' as any,
-        opcode: 0x09,
-        lineNumber: instruction.lineNumber,
-        sourceLine: `addiu $sp, $sp, 4`
-      });
-    } else if (instruction.mnemonic === 'jg' && instruction.operands.length >= 3) {
-      // 处理jg指令: jg $2, $3, label -> slt $at, $3, $2; bne $at, $zero, label
-      const reg1 = instruction.operands[0];
-      const reg2 = instruction.operands[1];
-      const label = instruction.operands[2];
-      
-      expandedInstructions.push({
-        mnemonic: 'slt',
-        operands: [
-          { type: OperandType.REGISTER, value: '$at', register: 1 },
-          reg2,
-          reg1
-        ],
-        type: 'R_TYPE' as any,
-        opcode: 0x00,
-        lineNumber: instruction.lineNumber,
-        sourceLine: `slt $at, ${reg2.value}, ${reg1.value}`
-      });
-      
-      expandedInstructions.push({
-        mnemonic: 'bne',
-        operands: [
-          { type: OperandType.REGISTER, value: '$at', register: 1 },
-          { type: OperandType.REGISTER, value: '$zero', register: 0 },
-          label
-        ],
-        type: 'I_TYPE' as any,
-        opcode: 0x05,
-        lineNumber: instruction.lineNumber,
-        sourceLine: `bne $at, $zero, ${label.value}`
-      });
-    } else if (instruction.mnemonic === 'jle' && instruction.operands.length >= 3) {
-      // 处理jle指令: jle $2, $3, label -> slt $at, $2, $3; beq $at, $zero, label
-      const reg1 = instruction.operands[0];
-      const reg2 = instruction.operands[1];
-      const label = instruction.operands[2];
-      
-      expandedInstructions.push({
-        mnemonic: 'slt',
-        operands: [
-          { type: OperandType.REGISTER, value: '$at', register: 1 },
-          reg1,
-          reg2
-        ],
-        type: 'R_TYPE' as any,
-        opcode: 0x00,
-        lineNumber: instruction.lineNumber,
-        sourceLine: `slt $at, ${reg1.value}, ${reg2.value}`
-      });
-      
-      expandedInstructions.push({
-        mnemonic: 'beq',
-        operands: [
-          { type: OperandType.REGISTER, value: '$at', register: 1 },
-          { type: OperandType.REGISTER, value: '$zero', register: 0 },
-          label
-        ],
-        type: 'I_TYPE' as any,
-        opcode: 0x04,
-        lineNumber: instruction.lineNumber,
-        sourceLine: `beq $at, $zero, ${label.value}`
-      });
-    } else {
-      // 其他伪指令的常规处理
-      for (const expansion of pseudoDef.expansion) {
-        const expandedInstruction = this.parseExpansion(expansion, instruction);
-        if (expandedInstruction) {
-          expandedInstructions.push(expandedInstruction);
-        }
+    // 其他伪指令（含自定义伪指令）按展开模板逐行替换占位符
+    const expandedInstructions: Instruction[] = [];
+    for (const expansion of pseudoDef.expansion) {
+      const expandedInstruction = this.parseExpansion(expansion, instruction, pseudoDef);
+      if (expandedInstruction) {
+        expandedInstructions.push(expandedInstruction);
       }
     }
 
     return expandedInstructions;
   }
 
+  /**
+   * 展开li/la：
+   * 解析阶段已知的常量按取值选择最短的指令序列
+   *   0..65535      -> ori  rt, $zero, value
+   *   -32768..-1    -> addi rt, $zero, value
+   *   低16位为0      -> lui  rt, high
+   *   其他           -> lui  rt, high; ori rt, rt, low
+   * 标签地址和引用标签的表达式在解析阶段未知，统一使用 lui+ori，保证解析与编码阶段的指令数一致
+   */
+  private expandLoadValue(instruction: Instruction): Instruction[] {
+    const [target, source] = instruction.operands;
+    const zero = ZERO_REGISTER;
+    const immediate = (value: number) => this.createImmediate(value);
+    
+    const isConstant = instruction.mnemonic === 'li' &&
+      source.type === OperandType.IMMEDIATE && source.immediate !== undefined && !source.expression;
+    const value = (isConstant ? source.immediate! : this.resolveValue(source) ?? 0) | 0;
+    const high = (value >>> 16) & 0xFFFF;
+    const low = value & 0xFFFF;
+    
+    if (isConstant) {
+      if (value >= 0 && value <= 0xFFFF) {
+        return [this.createInstruction('ori', [target, zero, immediate(low)], instruction)];
+      }
+      if (value >= -0x8000 && value < 0) {
+        return [this.createInstruction('addi', [target, zero, immediate(value)], instruction)];
+      }
+      if (low === 0) {
+        return [this.createInstruction('lui', [target, immediate(high)], instruction)];
+      }
+    }
+    
+    return [
+      this.createInstruction('lui', [target, immediate(high)], instruction),
+      this.createInstruction('ori', [target, target, immediate(low)], instruction)
+    ];
+  }
+
+  /**
+   * 检查是否为以标签或绝对地址（而不是 offset(rs)）访存的 lw/sw 等指令
+   */
+  private isAbsoluteMemoryAccess(instruction: Instruction): boolean {
+    const definition = this.getInstructionDefinition(instruction.mnemonic);
+    const address = instruction.operands[1];
+    return !!definition && definition.operands.some(operand => operand.type === OperandType.OFFSET) &&
+      !!address && (address.type === OperandType.LABEL || address.type === OperandType.IMMEDIATE);
+  }
+
+  /**
+   * 展开以标签或绝对地址访存的指令，固定为两条：
+   *   lw $t0, label  ->  lui $at, %hi(label)
+   *                      lw  $t0, %lo(label)($at)
+   * 偏移量按有符号数扩展，因此高16位需要加上低16位的进位
+   */
+  private expandAbsoluteMemoryAccess(instruction: Instruction): Instruction[] {
+    const [target, source] = instruction.operands;
+    const address = this.resolveValue(source) ?? 0;
+    const high = ((address + 0x8000) >>> 16) & 0xFFFF;
+    const low = (address << 16) >> 16;
+    
+    return [
+      this.createInstruction('lui', [AT_REGISTER, this.createImmediate(high)], instruction),
+      this.createInstruction(instruction.mnemonic, [target, this.createAddress(low, AT_REGISTER)], instruction)
+    ];
+  }
+
+  /**
+   * 展开 subi rt, rs, imm 为 addi rt, rs, -imm
+   */
+  private expandSubtractImmediate(instruction: Instruction): Instruction[] {
+    const [target, source, amount] = instruction.operands;
+    const value = this.resolveValue(amount) ?? 0;
+    return [this.createInstruction('addi', [target, source, this.createImmediate(-value)], instruction)];
+  }
+
+  /**
+   * 展开循环移位 rol/ror rd, rs, rt|imm
+   * 移位量为立即数时为3条指令，为寄存器时为4条（需要先求出反方向的移位量）
+   */
+  private expandRotate(instruction: Instruction): Instruction[] {
+    const [target, source, amount] = instruction.operands;
+    const [forward, backward] = instruction.mnemonic === 'rol' ? ['sll', 'srl'] : ['srl', 'sll'];
+    
+    if (amount.type === OperandType.REGISTER) {
+      return [
+        this.createInstruction('subu', [AT_REGISTER, ZERO_REGISTER, amount], instruction),
+        this.createInstruction(`${backward}v`, [AT_REGISTER, source, AT_REGISTER], instruction),
+        this.createInstruction(`${forward}v`, [target, source, amount], instruction),
+        this.createInstruction('or', [target, target, AT_REGISTER], instruction)
+      ];
+    }
+    
+    const shift = (this.resolveValue(amount) ?? 0) & 31;
+    return [
+      this.createInstruction(backward, [AT_REGISTER, source, this.createImmediate((32 - shift) & 31)], instruction),
+      this.createInstruction(forward, [target, source, this.createImmediate(shift)], instruction),
+      this.createInstruction('or', [target, target, AT_REGISTER], instruction)
+    ];
+  }
+
+  /**
+   * 展开非对齐取字 ulw rt, offset(rs)：按大端序逐字节装入，共10条指令
+   * 装入过程中 rt 作为累加器，因此 rt 不能与基址寄存器相同
+   */
+  private expandUnalignedLoad(instruction: Instruction): Instruction[] {
+    const [target, address] = instruction.operands;
+    if (address.type !== OperandType.ADDRESS) {
+      return [instruction];
+    }
+    if (target.register === address.register) {
+      throw new Error(`ulw destination register ${formatOperand(target)} must differ from the base register`);
+    }
+    
+    const base = this.createRegister(address.register || 0);
+    const offset = address.offset || 0;
+    const expanded = [this.createInstruction('lbu', [target, this.createAddress(offset, base)], instruction)];
+    for (let i = 1; i < 4; i++) {
+      expanded.push(
+        this.createInstruction('sll', [target, target, this.createImmediate(8)], instruction),
+        this.createInstruction('lbu', [AT_REGISTER, this.createAddress(offset + i, base)], instruction),
+        this.createInstruction('or', [target, target, AT_REGISTER], instruction)
+      );
+    }
+    return expanded;
+  }
+
+  /**
+   * 展开非对齐存字 usw rt, offset(rs)：按大端序逐字节存储，共7条指令
+   */
+  private expandUnalignedStore(instruction: Instruction): Instruction[] {
+    const [source, address] = instruction.operands;
+    if (address.type !== OperandType.ADDRESS) {
+      return [instruction];
+    }
+    
+    const base = this.createRegister(address.register || 0);
+    const offset = address.offset || 0;
+    const expanded: Instruction[] = [];
+    for (let i = 0; i < 3; i++) {
+      expanded.push(
+        this.createInstruction('srl', [AT_REGISTER, source, this.createImmediate(24 - i * 8)], instruction),
+        this.createInstruction('sb', [AT_REGISTER, this.createAddress(offset + i, base)], instruction)
+      );
+    }
+    expanded.push(this.createInstruction('sb', [source, this.createAddress(offset + 3, base)], instruction));
+    return expanded;
+  }
+
+  /**
+   * 获取li/la源操作数的值：立即数（含编码阶段求值的表达式）或标签地址，尚未确定时返回undefined
+   */
+  private resolveValue(operand: Operand): number | undefined {
+    if (operand.type === OperandType.IMMEDIATE) {
+      return operand.immediate;
+    }
+    if (operand.type === OperandType.LABEL && operand.label && this.context) {
+      return this.context.constants.get(operand.label)?.value ?? this.context.globalLabels.get(operand.label)?.address;
+    }
+    return undefined;
+  }
+
+  /**
+   * 创建立即数操作数
+   */
+  private createImmediate(value: number): Operand {
+    return { type: OperandType.IMMEDIATE, value: String(value), immediate: value };
+  }
+
+  /**
+   * 创建寄存器操作数
+   */
+  private createRegister(register: number): Operand {
+    return { type: OperandType.REGISTER, value: `$${register}`, register };
+  }
+
+  /**
+   * 创建内存地址操作数 offset(base)
+   */
+  private createAddress(offset: number, base: Operand): Operand {
+    return { type: OperandType.ADDRESS, value: `${offset}(${base.value})`, offset, register: base.register };
+  }
+
+  /**
+   * 创建展开后的真实指令
+   */
+  private createInstruction(mnemonic: string, operands: Operand[], originalInstruction: Instruction): Instruction {
+    const operandText = operands.map(operand => formatOperand(operand));
+    return {
+      mnemonic,
+      operands,
+      type: this.getInstructionType(mnemonic),
+      opcode: this.getInstructionDefinition(mnemonic)?.opcode ?? 0,
+      lineNumber: originalInstruction.lineNumber,
+      sourceLine: `${mnemonic} ${operandText.join(', ')}`
+    };
+  }
+
   /**
    * 解析展开字符串
    */
-  private parseExpansion(expansion: string, originalInstruction: Instruction): Instruction | null {
+  private parseExpansion(expansion: string, originalInstruction: Instruction, pseudoDef: PseudoInstruction): Instruction | null {
     // 移除注释
     let cleanExpansion = expansion.split('#')[0].trim();
     
     // 统一替换所有占位符
-    cleanExpansion = this.replacePlaceholders(cleanExpansion, originalInstruction);
+    cleanExpansion = this.replacePlaceholders(cleanExpansion, originalInstruction, pseudoDef);
     
     // 解析指令和操作数
     const parts = cleanExpansion.split(/\s+/);
@@ -199,28 +337,21 @@ export class PseudoExpander {
     for (let i = 1; i < parts.length; i++) {
       const operandStr = parts[i].replace(',', '').trim();
       if (operandStr) {
-        const operand = this.parseOperand(operandStr, originalInstruction);
+        const operand = this.parseOperand(operandStr, originalInstruction, pseudoDef);
         if (operand) {
           operands.push(operand);
         }
       }
     }
 
-    return {
-      mnemonic,
-      operands,
-      type: this.getInstructionType(mnemonic) as any,
-      opcode: 0,
-      lineNumber: originalInstruction.lineNumber,
-      sourceLine: cleanExpansion
-    };
+    return this.createInstruction(mnemonic, operands, originalInstruction);
   }
 
   /**
    * 统一替换占位符
-   * 处理所有类型的占位符：$1/$2/$3, %hi/%lo, immediate_high/immediate_low, label等
+   * 处理所有类型的占位符：$1/$2/$3, %hi/%lo, immediate_high/immediate_low/immediate, label等
    */
-  private replacePlaceholders(expansion: string, originalInstruction: Instruction): string {
+  private replacePlaceholders(expansion: string, originalInstruction: Instruction, pseudoDef: PseudoInstruction): string {
     let result = expansion;
 
     // 1. 替换 %hi(address) 和 %lo(address) - 用于la指令
@@ -242,7 +373,7 @@ export class PseudoExpander {
           result = result.replace(/address/g, labelOperand.label);
           
           // 然后替换 %hi(label) 为地址的高16位
-          result = result.replace(/%hi\((\w+)\)/g, (match, label) => {
+          result = result.replace(/%hi\(([^)]+)\)/g, (match, label) => {
             const info = this.context!.globalLabels.get(label);
             if (info) {
               return ((info.address >>> 16) & 0xFFFF).toString();
@@ -251,7 +382,7 @@ export class PseudoExpander {
           });
           
           // 替换 %lo(label) 为地址的低16位
-          result = result.replace(/%lo\((\w+)\)/g, (match, label) => {
+          result = result.replace(/%lo\(([^)]+)\)/g, (match, label) => {
             const info = this.context!.globalLabels.get(label);
             if (info) {
               return (info.address & 0xFFFF).toString();
@@ -262,29 +393,20 @@ export class PseudoExpander {
       }
     }
 
-    // 2. 替换 immediate_high 和 immediate_low - 用于li指令
-    if (result.includes('immediate_high') || result.includes('immediate_low')) {
-      const immediateOperand = originalInstruction.operands.find(op => 
-        op.type === OperandType.IMMEDIATE && op.immediate !== undefined
-      );
-      if (immediateOperand && immediateOperand.immediate !== undefined) {
-        const value = immediateOperand.immediate;
-        const high = (value >>> 16) & 0xFFFF;
-        const low = value & 0xFFFF;
-        result = result.replace(/immediate_high/g, high.toString());
-        result = result.replace(/immediate_low/g, low.toString());
-      }
+    // 2. 替换 immediate_high、immediate_low 和 immediate（可带负号）- 用于li、subi和自定义伪指令
+    //    立即数引用后面定义的常量或标签时，解析阶段按0展开（只用于计算指令数），编码阶段再求值
+    if (/\bimmediate(_high|_low)?\b/.test(result)) {
+      const value = this.getImmediateValue(originalInstruction, pseudoDef) ?? 0;
+      const high = (value >>> 16) & 0xFFFF;
+      const low = value & 0xFFFF;
+      result = result.replace(/immediate_high/g, high.toString());
+      result = result.replace(/immediate_low/g, low.toString());
+      result = result.replace(/-immediate\b/g, (-value).toString());
+      result = result.replace(/\bimmediate\b/g, value.toString());
     }
 
-    // 3. 替换 label 占位符 - 用于分支和跳转指令（b, bal, beqz, bnez, bgt, bge, blt, ble等）
-    if (result.includes('label')) {
-      const labelOperand = originalInstruction.operands.find(op => 
-        op.type === OperandType.LABEL && op.label
-      );
-      if (labelOperand && labelOperand.label) {
-        result = result.replace(/label/g, labelOperand.label);
-      }
-    }
+    // 3. label 占位符（分支和跳转目标）在 parseOperand 中直接替换为原操作数，
+    //    以保留标签运算表达式（如 loop+4）
 
     // 4. 替换 address 占位符 - 用于la指令（如果没有%hi/%lo，直接使用地址值）
     if (result.includes('address') && !result.includes('%hi') && !result.includes('%lo')) {
@@ -302,17 +424,28 @@ export class PseudoExpander {
     return result;
   }
 
+  /**
+   * 获取展开模板中 immediate 占位符的值：操作数签名中立即数位置的操作数，没有签名时为第一个立即数操作数
+   * 立即数位置也可以写常量或标签，尚未确定时返回undefined
+   */
+  private getImmediateValue(instruction: Instruction, pseudoDef: PseudoInstruction): number | undefined {
+    const index = pseudoDef.operands
+      ? pseudoDef.operands.indexOf(OperandType.IMMEDIATE)
+      : instruction.operands.findIndex(operand => operand.type === OperandType.IMMEDIATE);
+    const operand = instruction.operands[index];
+    return operand ? this.resolveValue(operand) : undefined;
+  }
+
   /**
    * 解析操作数
    */
-  private parseOperand(operandStr: string, originalInstruction: Instruction): Operand | null {
-    // 处理占位符
-    if (operandStr.startsWith('$1')) {
-      return this.getOperandByIndex(originalInstruction, 0);
-    } else if (operandStr.startsWith('$2')) {
-      return this.getOperandByIndex(originalInstruction, 1);
-    } else if (operandStr.startsWith('$3')) {
-      return this.getOperandByIndex(originalInstruction, 2);
+  private parseOperand(operandStr: string, originalInstruction: Instruction, pseudoDef: PseudoInstruction): Operand | null {
+    // 处理占位符 $1 到 $9
+    const placeholder = operandStr.match(/^\$([1-9])$/);
+    if (placeholder) {
+      return this.getOperandByIndex(originalInstruction, Number(placeholder[1]) - 1);
+    } else if (operandStr === 'label') {
+      return this.getLabelOperand(originalInstruction, pseudoDef);
     } else if (operandStr.startsWith('$at')) {
       return {
         type: OperandType.REGISTER,
@@ -358,7 +491,7 @@ export class PseudoExpander {
       };
     } else if (operandStr.includes('(') && operandStr.includes(')')) {
       // 内存地址
-      return this.parseMemoryAddress(operandStr);
+      return this.parseMemoryAddress(operandStr, originalInstruction);
     } else {
       // 标签
       return {
@@ -369,6 +502,17 @@ export class PseudoExpander {
     }
   }
 
+  /**
+   * 获取展开模板中 label 占位符对应的操作数：操作数签名中标签位置的操作数，没有签名时为第一个标签操作数
+   * 标签位置也可以是引用标签的表达式（如 loop+4），由编码器按目标地址回填
+   */
+  private getLabelOperand(instruction: Instruction, pseudoDef: PseudoInstruction): Operand | null {
+    const index = pseudoDef.operands
+      ? pseudoDef.operands.indexOf(OperandType.LABEL)
+      : instruction.operands.findIndex(operand => operand.type === OperandType.LABEL);
+    return instruction.operands[index] ?? null;
+  }
+
   /**
    * 根据索引获取操作数
    */
@@ -380,14 +524,15 @@ export class PseudoExpander {
   }
 
   /**
-   * 解析内存地址
+   * 解析内存地址，基址寄存器可以是占位符，如 4($2)
    */
-  private parseMemoryAddress(operandStr: string): Operand | null {
+  private parseMemoryAddress(operandStr: string, originalInstruction: Instruction): Operand | null {
     const match = operandStr.match(/^(-?\d+)\((\$\w+)\)$/);
     if (match) {
       const offset = parseInt(match[1]);
       const regName = match[2];
-      const regIndex = this.getRegisterIndex(regName.substring(1));
+      const base = /^\$[1-9]$/.test(regName) ? this.getOperandByIndex(originalInstruction, Number(regName[1]) - 1) : null;
+      const regIndex = base ? base.register || 0 : this.getRegisterIndex(regName.substring(1));
       
       return {
         type: OperandType.ADDRESS,
@@ -400,31 +545,44 @@ export class PseudoExpander {
   }
 
   /**
-   * 获取寄存器索引
+   * 获取寄存器索引（模板中的寄存器已在加载时检查）
    */
   private getRegisterIndex(regName: string): number {
-    const registerMap: { [key: string]: number } = {
-      'zero': 0, 'at': 1,
-      'v0': 2, 'v1': 3,
-      'a0': 4, 'a1': 5, 'a2': 6, 'a3': 7,
-      't0': 8, 't1': 9, 't2': 10, 't3': 11, 't4': 12, 't5': 13, 't6': 14, 't7': 15,
-      's0': 16, 's1': 17, 's2': 18, 's3': 19, 's4': 20, 's5': 21, 's6': 22, 's7': 23,
-      't8': 24, 't9': 25,
-      'k0': 26, 'k1': 27,
-      'gp': 28, 'sp': 29, 'fp': 30, 'ra': 31
-    };
-    
-    return registerMap[regName.toLowerCase()] || 0;
+    if (/^\d+$/.test(regName)) {
+      return parseInt(regName, 10);
+    }
+    const name = regName.toLowerCase();
+    for (const [index, registerName] of REGISTER_NAMES.entries()) {
+      if (registerName === name) {
+        return index;
+      }
+    }
+    throw new Error(`Unknown register: $${regName}`);
   }
 
   /**
    * 获取指令类型
    */
   private getInstructionType(mnemonic: string): any {
-    const definition = INSTRUCTION_LOOKUP.get(mnemonic);
+    const definition = this.getInstructionDefinition(mnemonic);
     if (definition) {
       return definition.type;
     }
     return 'SPECIAL';
   }
+
+  /**
+   * 在使用的指令集（未设置时为 Minisys-1A）中查找指令定义
+   */
+  private getInstructionDefinition(mnemonic: string): InstructionDefinition | undefined {
+    return (this.context?.instructionSet ?? MINISYS_1A_INSTRUCTION_SET).instructions.get(mnemonic);
+  }
+}
+
+/**
+ * 操作数在源代码中的写法（寄存器操作数可能只记录了寄存器名）
+ */
+function formatOperand(operand: Operand): string {
+  const text = String(operand.value);
+  return operand.type === OperandType.REGISTER && !text.startsWith('$') ? `$${text}` : text;
 }
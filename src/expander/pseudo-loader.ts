@@ -0,0 +1,139 @@
+/**
+ * 自定义伪指令加载
+ * 从 JSON 或 YAML 文件读取用户定义的伪指令，检查展开模板后才能在汇编时使用
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { OperandType } from '../core/types';
+import { PSEUDO_INSTRUCTION_LOOKUP, PseudoInstruction, validatePseudoInstructions } from '../core/instruction-set';
+import { InstructionSet, MINISYS_1A_INSTRUCTION_SET } from '../core/isa';
+
+// 操作数签名中可以使用的操作数种类
+const SIGNATURE_OPERAND_TYPES: OperandType[] = [
+  OperandType.REGISTER,
+  OperandType.IMMEDIATE,
+  OperandType.LABEL,
+  OperandType.ADDRESS
+];
+
+// 伪指令助记符
+const MNEMONIC_PATTERN = /^[a-z_][a-z0-9_.]*$/;
+
+/**
+ * 加载伪指令文件，文件内容为伪指令定义数组，或带有 pseudoInstructions 数组的对象：
+ *   { "pseudoInstructions": [
+ *       { "mnemonic": "inc", "operands": ["register"], "expansion": ["addiu $1, $1, 1"], "instructionCount": 1 }
+ *   ] }
+ * 扩展名为 .yaml/.yml 时按 YAML 解析，结构相同。定义有误时抛出错误，错误信息列出发现的所有问题
+ * @param instructionSet 伪指令展开使用的指令集，默认为 Minisys-1A
+ */
+export function loadPseudoInstructions(file: string, instructionSet: InstructionSet = MINISYS_1A_INSTRUCTION_SET): PseudoInstruction[] {
+  const extension = path.extname(file).toLowerCase();
+  const isYAML = extension === '.yaml' || extension === '.yml';
+
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read pseudo instruction file ${file}: ${error.message}`);
+  }
+
+  let data: unknown;
+  try {
+    data = isYAML ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid ${isYAML ? 'YAML' : 'JSON'} in pseudo instruction file ${file}: ${error.message}`);
+  }
+
+  const entries = Array.isArray(data) ? data : isObject(data) ? data.pseudoInstructions : undefined;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Pseudo instruction file ${file} must contain an array or an object with a pseudoInstructions array`);
+  }
+
+  const problems: string[] = [];
+  const pseudoInstructions: PseudoInstruction[] = [];
+  entries.forEach((entry, index) => {
+    const pseudo = parseDefinition(entry, index, instructionSet, problems);
+    if (!pseudo) {
+      return;
+    }
+    if (pseudoInstructions.some(existing => existing.mnemonic === pseudo.mnemonic)) {
+      problems.push(`${pseudo.mnemonic}: defined more than once`);
+      return;
+    }
+    pseudoInstructions.push(pseudo);
+  });
+  problems.push(...validatePseudoInstructions(pseudoInstructions, instructionSet.instructions));
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid pseudo instruction definitions in ${file}:\n${problems.join('\n')}`);
+  }
+  return pseudoInstructions;
+}
+
+/**
+ * 检查一条伪指令定义的字段，有问题时记录到 problems 并返回undefined
+ */
+function parseDefinition(entry: unknown, index: number, instructionSet: InstructionSet, problems: string[]): PseudoInstruction | undefined {
+  if (!isObject(entry)) {
+    problems.push(`Entry ${index + 1}: must be an object`);
+    return undefined;
+  }
+  const mnemonic = typeof entry.mnemonic === 'string' ? entry.mnemonic.toLowerCase() : '';
+  if (!MNEMONIC_PATTERN.test(mnemonic)) {
+    problems.push(`Entry ${index + 1}: mnemonic must be an identifier`);
+    return undefined;
+  }
+  if (instructionSet.instructions.has(mnemonic)) {
+    problems.push(`${mnemonic}: conflicts with the instruction ${mnemonic}`);
+    return undefined;
+  }
+  if (PSEUDO_INSTRUCTION_LOOKUP.has(mnemonic)) {
+    problems.push(`${mnemonic}: conflicts with the built-in pseudo instruction ${mnemonic}`);
+    return undefined;
+  }
+
+  const problemCount = problems.length;
+  if (!Array.isArray(entry.operands)) {
+    problems.push(`${mnemonic}: operands must be an array of operand types (register, immediate, label, address)`);
+  }
+  const operands: OperandType[] = [];
+  for (const name of Array.isArray(entry.operands) ? entry.operands : []) {
+    const type = SIGNATURE_OPERAND_TYPES.find(candidate => typeof name === 'string' && candidate === name.toUpperCase());
+    if (type) {
+      operands.push(type);
+    } else {
+      problems.push(`${mnemonic}: unknown operand type '${name}' (expected register, immediate, label or address)`);
+    }
+  }
+
+  const expansion = entry.expansion;
+  if (!isStringArray(expansion) || expansion.length === 0 || expansion.some(line => !line.trim())) {
+    problems.push(`${mnemonic}: expansion must be a non-empty array of instructions`);
+  }
+  const instructionCount = entry.instructionCount;
+  if (instructionCount !== undefined && !(typeof instructionCount === 'number' && Number.isInteger(instructionCount))) {
+    problems.push(`${mnemonic}: instructionCount must be an integer`);
+  }
+  if (problems.length > problemCount || !isStringArray(expansion)) {
+    return undefined;
+  }
+
+  return {
+    mnemonic,
+    operands,
+    expansion: expansion.map(line => line.trim()),
+    instructionCount: instructionCount as number | undefined,
+    description: typeof entry.description === 'string' ? entry.description : ''
+  };
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
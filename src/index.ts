@@ -3,10 +3,15 @@
  * 提供命令行接口和程序化API
  */
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { AdvancedAssembler, AssemblerConfig } from './assembler';
 import { OutputFormat } from './output/formatter';
-import { linkAll, loadSystemFiles } from './linker/linker';
+import { linkUserProgram, loadSystemFiles } from './linker/linker';
+import { IncludeResolver } from './parser/include-resolver';
+import { loadPseudoInstructions } from './expander/pseudo-loader';
+import { PseudoInstruction } from './core/instruction-set';
+import { DEFAULT_INSTRUCTION_SET, InstructionSet, loadInstructionSet } from './core/isa';
+import { AssemblyError, AssemblyWarning, SourceLocation } from './core/types';
 import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
@@ -14,6 +19,42 @@ import chalk from 'chalk';
 // 命令行程序
 const program = new Command();
 
+// 收集可重复指定的选项值
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// 解析 -D NAME[=value]，省略值时定义为1
+function collectDefine(value: string, previous: { [name: string]: number }): { [name: string]: number } {
+  const [name, rawValue] = value.split('=', 2);
+  const parsed = rawValue === undefined ? 1 : Number(rawValue);
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || !Number.isInteger(parsed)) {
+    throw new InvalidArgumentError(`无效的符号定义 '${value}'，应为 NAME 或 NAME=整数`);
+  }
+  return { ...previous, [name]: parsed };
+}
+
+// 错误和警告的位置：file:line:col，没有文件时为 Line line:col，没有列号时省略
+function formatLocation({ file, lineNumber, column }: AssemblyError | AssemblyWarning): string {
+  const position = column ? `${lineNumber}:${column}` : `${lineNumber}`;
+  return file ? `${file}:${position}` : `Line ${position}`;
+}
+
+// 输出警告信息
+function printWarnings(warnings: AssemblyWarning[]): void {
+  if (warnings.length === 0) {
+    return;
+  }
+  console.error('');
+  console.error(chalk.yellow('警告：'));
+  warnings.forEach(warning => {
+    console.error(chalk.yellow(`  ${formatLocation(warning)}: ${warning.message}`));
+    if (warning.sourceLine) {
+      console.error(chalk.gray(`    ${warning.sourceLine}`));
+    }
+  });
+}
+
 program
   .name('advanced-minisys-assembler')
   .description('Advanced Minisys-1A Assembler with Modern Architecture')
@@ -29,6 +70,13 @@ program
   .option('-r, --report', 'Generate assembly report', true)
   .option('-d, --disassembly', 'Generate disassembly', false)
   .option('-v, --verbose', 'Verbose output', false)
+  .option('--default-macros', 'Enable built-in macros (delay, save_regs, restore_regs, call, return)', false)
+  .option('-I, --include <dir>', 'Add directory to .include search path (repeatable)', collect, [])
+  .option('--auto-align', 'Automatically align .word/.half data to their natural boundaries', false)
+  .option('-D, --define <name[=value]>', 'Define a symbolic constant for .if/.ifdef (repeatable)', collectDefine, {})
+  .option('--relax-branches', 'Rewrite out-of-range conditional branches as an inverted branch over a j', false)
+  .option('--pseudo <file>', 'Load user-defined pseudo-instructions from a JSON or YAML file')
+  .option('--isa <name|file>', 'Instruction set variant (minisys-1a, minisys-1) or ISA description file (JSON)', DEFAULT_INSTRUCTION_SET)
   .option('--no-report', 'Disable assembly report')
   .action(async (input: string, options: any) => {
     try {
@@ -40,9 +88,36 @@ program
 
       // 读取源代码
       let source = fs.readFileSync(input, 'utf8');
+      let sourceMap: SourceLocation[] | undefined;
+      const includePaths: string[] = options.include.map((dir: string) => path.resolve(dir));
+
+      // 指令集和自定义伪指令（链接时计算各部分的指令数也需要用到）
+      let instructionSet: InstructionSet;
+      let pseudoInstructions: PseudoInstruction[] = [];
+      try {
+        instructionSet = loadInstructionSet(options.isa);
+        if (options.pseudo) {
+          pseudoInstructions = loadPseudoInstructions(options.pseudo, instructionSet);
+        }
+      } catch (error) {
+        console.error(chalk.red(`错误：${error instanceof Error ? error.message : '未知错误'}`));
+        process.exit(1);
+      }
       
       // 如果启用链接功能
       if (options.link) {
+        // 链接前先展开用户程序中的 .include，以便正确提取数据段和代码段
+        const included = new IncludeResolver(includePaths).resolve(source, input);
+        if (included.errors.length > 0) {
+          console.error(chalk.red('汇编失败！'));
+          included.errors.forEach(error => {
+            console.error(chalk.red(`  ${error.file}:${error.lineNumber}: ${error.message}`));
+          });
+          process.exit(1);
+        }
+        source = included.source;
+        sourceMap = included.sourceMap;
+
         if (options.verbose) {
           console.log(chalk.blue('已启用链接模式'));
           console.log('  正在加载BIOS和中断处理程序...');
@@ -89,35 +164,13 @@ program
           const snippetDir = path.join(__dirname, '../snippet');
           const systemFiles = loadSystemFiles(snippetDir, customIntEntryPath, customIntHandlerPath);
 
-          // 提取用户程序的数据段和代码段
-          const userLines = source.replace(/\r\n/g, '\n').trim().split('\n');
-          const dataSegStartLine = userLines.findIndex(v => v.match(/\.data/));
-          const textSegStartLine = userLines.findIndex(v => v.match(/\.text/));
-
-          if (dataSegStartLine === -1) {
-            throw new Error('未找到数据段开始');
-          }
-          if (textSegStartLine === -1) {
-            throw new Error('未找到代码段开始');
-          }
-          if (dataSegStartLine >= textSegStartLine) {
-            throw new Error('数据段不能位于代码段之后');
-          }
-
-          // 提取数据段和代码段
-          const dataSegment = userLines.slice(dataSegStartLine, textSegStartLine).join('\n');
-          const textSegment = userLines.slice(textSegStartLine + 1).join('\n');
-
-          // 链接所有部分
-          const linkedTextSegment = linkAll(
-            systemFiles.bios,
-            textSegment,
-            systemFiles.intEntry,
-            systemFiles.intHandler
-          );
-
-          // 组合完整的程序（数据段 + 链接后的代码段）
-          source = dataSegment + '\n.text\n' + linkedTextSegment;
+          // 链接用户程序的代码段，数据段保持不变
+          ({ source, sourceMap } = linkUserProgram(
+            source,
+            sourceMap!,
+            systemFiles,
+            { enableDefaultMacros: options.defaultMacros, defines: options.define, autoAlign: options.autoAlign, pseudoInstructions, instructionSet }
+          ));
 
           // 保存链接后的汇编文件
           const linkedAsmPath = path.join(options.output, 'linked.asm');
@@ -160,7 +213,14 @@ program
         generateDisassembly: options.disassembly,
         optimizeCode: false,
         verbose: options.verbose,
-        generateUartFiles: options.uart || false
+        generateUartFiles: options.uart || false,
+        enableDefaultMacros: options.defaultMacros || false,
+        includePaths,
+        defines: options.define,
+        autoAlign: options.autoAlign,
+        relaxBranches: options.relaxBranches,
+        pseudoInstructionFile: options.pseudo,
+        isa: options.isa
       };
 
       // 创建汇编器
@@ -172,11 +232,14 @@ program
         console.log(`输入文件：${input}`);
         console.log(`输出目录：${options.output}`);
         console.log(`输出格式：${format}`);
+        console.log(`指令集：${instructionSet.name}`);
         console.log('');
       }
 
       // 执行汇编
-      const result = assembler.assemble(source);
+      // 链接模式下汇编的是拼接后的源代码，不再对应输入文件
+      // 链接模式下通过 sourceMap 将错误映射回 BIOS、用户程序和中断处理程序的原始文件
+      const result = assembler.assemble(source, input, sourceMap);
 
       if (result.success) {
         // 生成输出文件
@@ -222,6 +285,9 @@ program
         } else {
           console.log(chalk.green('汇编完成！'));
         }
+        
+        // 汇编成功时同样输出警告（如立即数被意外符号扩展）
+        printWarnings(result.warnings);
       } else {
         console.error(chalk.red('汇编失败！'));
         console.error('');
@@ -229,23 +295,17 @@ program
         if (result.errors.length > 0) {
           console.error(chalk.red('错误：'));
           result.errors.forEach(error => {
-            console.error(chalk.red(`  Line ${error.lineNumber}: ${error.message}`));
+            console.error(chalk.red(`  ${formatLocation(error)}: ${error.message}`));
+            if (error.macro) {
+              console.error(chalk.gray(`    (宏 ${error.macro.macroName} 展开，宏体第 ${error.macro.lineNumber} 行)`));
+            }
             if (error.sourceLine) {
               console.error(chalk.gray(`    ${error.sourceLine}`));
             }
           });
         }
         
-        if (result.warnings.length > 0) {
-          console.error('');
-          console.error(chalk.yellow('警告：'));
-          result.warnings.forEach(warning => {
-            console.error(chalk.yellow(`  Line ${warning.lineNumber}: ${warning.message}`));
-            if (warning.sourceLine) {
-              console.error(chalk.gray(`    ${warning.sourceLine}`));
-            }
-          });
-        }
+        printWarnings(result.warnings);
         
         process.exit(1);
       }
@@ -258,6 +318,7 @@ program
 
 // 程序化API
 export { AdvancedAssembler, AssemblerConfig, OutputFormat };
+export { CustomInstruction, InstructionEncoder } from './core/instruction-set';
 export * from './core/types';
 export * from './parser/lexer';
 export * from './parser/parser';
@@ -0,0 +1,68 @@
+import * as path from 'path';
+import { AdvancedAssembler } from '../assembler';
+import { SourceLocation } from '../core/types';
+import { countInstructions, linkUserProgram, loadSystemFiles } from './linker';
+
+const systemFiles = loadSystemFiles(path.join(__dirname, '../snippet'));
+
+function link(lines: string[]) {
+  const sourceMap: SourceLocation[] = lines.map((_, index) => ({ file: 'user.asm', line: index + 1 }));
+  return linkUserProgram(lines.join('\n'), sourceMap, systemFiles);
+}
+
+function assembleLinked(lines: string[]) {
+  const linked = link(lines);
+  const result = new AdvancedAssembler().assemble(linked.source, 'user.asm', linked.sourceMap);
+  expect(result.errors).toEqual([]);
+  return { linked, result };
+}
+
+describe('countInstructions', () => {
+  it('counts .org and .align from the start address', () => {
+    const source = ['nop', '.align 3', 'nop', '.org 0x600', 'nop'].join('\n');
+    expect(countInstructions(source, {}, 0x500)).toBe(65);
+    expect(countInstructions(source, {}, 0)).toBe(0x600 / 4 + 1);
+  });
+});
+
+describe('linkUserProgram', () => {
+  it('sizes pseudo-instructions with constants defined in the data segment', () => {
+    const { linked, result } = assembleLinked([
+      '.data',
+      '.equ K, 5',
+      'value: .word K',
+      '.text',
+      'main:',
+      '  li $t0, K',
+      '.if K',
+      '  nop',
+      '.endif',
+      '  jr $ra'
+    ]);
+
+    expect(linked.source).toContain('# User Application Length = 3');
+    expect(result.symbolTable.get('main')!.address).toBe(0x500);
+    expect(result.symbolTable.get('interruptServer0')!.address).toBe(0xF500);
+  });
+
+  it('keeps the interrupt handlers in place when user code uses .org and .align', () => {
+    const { linked, result } = assembleLinked([
+      '.data',
+      'value: .word 1',
+      '.text',
+      'main:',
+      '  nop',
+      '.align 4',
+      'aligned:',
+      '  nop',
+      '.org 0x600',
+      'late:',
+      '  jr $ra'
+    ]);
+
+    expect(linked.source).toContain('# User Application Length = 65');
+    expect(result.symbolTable.get('aligned')!.address).toBe(0x510);
+    expect(result.symbolTable.get('late')!.address).toBe(0x600);
+    expect(result.symbolTable.get('interruptServer0')!.address).toBe(0xF500);
+  });
+});
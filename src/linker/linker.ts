@@ -5,9 +5,10 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { Parser } from '../parser/parser';
+import { Parser, ParserOptions } from '../parser/parser';
 import { PseudoExpander } from '../expander/pseudo-expander';
-import { AssemblyContext } from '../core/types';
+import { AssemblyContext, MappedSource, SourceLocation } from '../core/types';
+import { getDisplayPath } from '../parser/include-resolver';
 
 // 内存布局常量
 const BIOS_START = 0x00000000;
@@ -33,69 +34,97 @@ const INT_HANDLER_MAX_INSTRUCTIONS = 704;
 
 const TOTAL_MEMORY_SIZE = 0x0000FFFF + 1; // 64KB
 
+// 未提供行号映射时各部分使用的文件名
+const BIOS_FILE = 'minisys-bios.asm';
+const USER_APP_FILE = 'user.asm';
+const INT_ENTRY_FILE = 'minisys-interrupt-entry.asm';
+const INT_HANDLER_FILE = 'minisys-interrupt-handler.asm';
+
+// 链接器生成的行（注释、填充nop）所属的文件名
+export const LINKER_SOURCE_FILE = '<linker>';
+
+// 链接各部分的行号映射
+export interface LinkSourceMaps {
+  bios?: SourceLocation[];
+  user?: SourceLocation[];
+  intEntry?: SourceLocation[];
+  intHandler?: SourceLocation[];
+}
+
+// BIOS 和中断处理程序（由 loadSystemFiles 读取）
+export interface SystemFiles {
+  bios: string;
+  intEntry: string;
+  intHandler: string;
+  sourceMaps: LinkSourceMaps;
+}
+
+// 带原始位置的源代码行
+interface SourceLine {
+  text: string;
+  location: SourceLocation;
+}
+
 /**
  * 计算汇编代码中的指令数量（考虑伪指令展开）
+ * 各部分单独解析，引用的符号（如用户程序数据段中的标签）可能不在其中定义，不检查未定义的符号；
+ * 其他解析错误会导致指令数不准确，直接报错
+ * @param startAddress 代码在内存中的起始地址，.org 和 .align 按实际地址计算
  */
-export function countInstructions(asmCode: string): number {
-  try {
-    // 创建解析器
-    const parser = new Parser();
-    
-    // 解析汇编代码
-    const context = parser.parse(asmCode);
+export function countInstructions(asmCode: string, parserOptions: ParserOptions = {}, startAddress: number = 0): number {
+  // 创建解析器并解析汇编代码
+  const parser = new Parser({ ...parserOptions, allowUndefinedSymbols: true, textStartAddress: startAddress });
+  const context = parser.parse(asmCode);
 
-    if (context.errors.length > 0) {
-      throw new Error(`Parse errors: ${context.errors.join(', ')}`);
-    }
-
-    // 获取代码段
-    const textSegment = context.segments.get('text');
-    if (!textSegment) {
-      return 0;
-    }
+  if (context.errors.length > 0) {
+    const messages = context.errors.map(error => `  ${error.lineNumber}: ${error.message}`);
+    throw new Error(`无法计算指令数：\n${messages.join('\n')}`);
+  }
 
-    // 展开伪指令并计算指令数
-    const expander = new PseudoExpander(context);
-    let instructionCount = 0;
+  // 获取代码段
+  const textSegment = context.segments.get('text');
+  if (!textSegment) {
+    return 0;
+  }
 
-    for (const instruction of textSegment.instructions) {
-      const expanded = expander.expandPseudoInstruction(instruction);
-      instructionCount += expanded.length;
-    }
+  // 展开伪指令并计算指令数
+  const expander = new PseudoExpander(context);
+  let instructionCount = 0;
 
-    return instructionCount;
-  } catch (error) {
-    // 如果解析失败，使用简单的方法：计算非空非标签行数
-    const lines = asmCode
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line && !line.startsWith('#') && !line.startsWith('.'));
-    
-    // 简单估算：每行一条指令（不考虑宏展开）
-    const fallbackCount = lines.filter(line => !line.endsWith(':')).length;
-    
-    return fallbackCount;
+  // 指令可能因 .align/.org 留有空隙，以最后一条指令的结束位置计算
+  for (const instruction of textSegment.instructions) {
+    const expanded = expander.expandPseudoInstruction(instruction);
+    const endIndex = (instruction.address - textSegment.startAddress) / 4 + expanded.length;
+    instructionCount = Math.max(instructionCount + expanded.length, endIndex);
   }
+
+  return instructionCount;
 }
 
 /**
- * 链接所有部分，返回链接后的完整内存汇编代码
+ * 链接所有部分，返回链接后的完整内存汇编代码及其行号映射
  * @param biosASM BIOS汇编代码
  * @param userASM 用户程序汇编代码
  * @param intEntryASM 中断入口汇编代码
  * @param intHandlerASM 中断处理程序汇编代码
+ * @param parserOptions 计算指令数时使用的解析器选项（应与最终汇编一致）
+ * @param sourceMaps 各部分每一行的原始位置（可选），用于将错误映射回原始文件
+ * @param userPrelude 用户程序代码段之前的行（.equ、.macro、数据段等），不在链接结果中，但计算用户程序指令数时需要
  */
 export function linkAll(
   biosASM: string,
   userASM: string,
   intEntryASM: string,
-  intHandlerASM: string
-): string {
+  intHandlerASM: string,
+  parserOptions: ParserOptions = {},
+  sourceMaps: LinkSourceMaps = {},
+  userPrelude: string = ''
+): MappedSource {
   // 计算各部分指令数
-  const biosInsCount = countInstructions(biosASM);
-  const userInsCount = countInstructions(userASM);
-  const intEntryInsCount = countInstructions(intEntryASM);
-  const intHandlerInsCount = countInstructions(intHandlerASM);
+  const biosInsCount = countInstructions(biosASM, parserOptions, BIOS_START);
+  const userInsCount = countInstructions(userPrelude ? `${userPrelude}\n.text\n${userASM}` : userASM, parserOptions, USER_APP_START);
+  const intEntryInsCount = countInstructions(intEntryASM, parserOptions, INT_ENTRY_START);
+  const intHandlerInsCount = countInstructions(intHandlerASM, parserOptions, INT_HANDLER_START);
 
   // 验证各部分大小
   if (biosInsCount > BIOS_MAX_INSTRUCTIONS) {
@@ -135,55 +164,97 @@ export function linkAll(
   }
 
   // 构建链接后的完整程序
-  let allProgram = '';
+  const allProgram: SourceLine[] = [];
+  const emit = (...lines: string[]) => allProgram.push(...lines.map(generatedLine));
+  const emitNops = (count: number) => emit(`.rept ${count}`, 'nop', '.endr');
 
   // BIOS段
-  allProgram += '# ====== BIOS START ======\n';
-  allProgram += `# BIOS Length = ${biosInsCount}\n`;
-  allProgram += biosASM + '\n';
+  emit('# ====== BIOS START ======', `# BIOS Length = ${biosInsCount}`);
+  allProgram.push(...toSourceLines(biosASM, BIOS_FILE, sourceMaps.bios));
   if (biosNopPadding > 0) {
-    allProgram += `# BIOS Padding = ${biosNopPadding}\n`;
-    allProgram += 'nop\n'.repeat(biosNopPadding);
+    emit(`# BIOS Padding = ${biosNopPadding}`);
+    emitNops(biosNopPadding);
   }
-  allProgram += '# ====== BIOS END ======\n\n';
+  emit('# ====== BIOS END ======', '');
 
   // 用户程序段
-  allProgram += '# ====== User Application START ======\n';
-  allProgram += `# User Application Length = ${userInsCount}\n`;
-  allProgram += userASM + '\n';
+  emit('# ====== User Application START ======', `# User Application Length = ${userInsCount}`);
+  allProgram.push(...toSourceLines(userASM, USER_APP_FILE, sourceMaps.user));
   if (userNopPadding > 0) {
-    allProgram += `# User Application Padding = ${userNopPadding}\n`;
-    allProgram += 'nop\n'.repeat(userNopPadding);
+    emit(`# User Application Padding = ${userNopPadding}`);
+    emitNops(userNopPadding);
   }
-  allProgram += '# ====== User Application END ======\n\n';
+  emit('# ====== User Application END ======', '');
 
   // 中间空区域
-  allProgram += '# ====== Empty Region START ======\n';
-  allProgram += `# Empty Region Length = ${middleEmptyNopPadding}\n`;
-  allProgram += 'nop\n'.repeat(middleEmptyNopPadding);
-  allProgram += '# ====== Empty Region END ======\n\n';
+  emit('# ====== Empty Region START ======', `# Empty Region Length = ${middleEmptyNopPadding}`);
+  emitNops(middleEmptyNopPadding);
+  emit('# ====== Empty Region END ======', '');
 
   // 中断入口段
-  allProgram += '# ====== Interrupt Entry START ======\n';
-  allProgram += `# Interrupt Entry Length = ${intEntryInsCount}\n`;
-  allProgram += intEntryASM + '\n';
+  emit('# ====== Interrupt Entry START ======', `# Interrupt Entry Length = ${intEntryInsCount}`);
+  allProgram.push(...toSourceLines(intEntryASM, INT_ENTRY_FILE, sourceMaps.intEntry));
   if (intEntryNopPadding > 0) {
-    allProgram += `# Interrupt Entry Padding = ${intEntryNopPadding}\n`;
-    allProgram += 'nop\n'.repeat(intEntryNopPadding);
+    emit(`# Interrupt Entry Padding = ${intEntryNopPadding}`);
+    emitNops(intEntryNopPadding);
   }
-  allProgram += '# ====== Interrupt Entry END ======\n\n';
+  emit('# ====== Interrupt Entry END ======', '');
 
   // 中断处理程序段
-  allProgram += '# ====== Interrupt Handler START ======\n';
-  allProgram += `# Interrupt Handler Length = ${intHandlerInsCount}\n`;
-  allProgram += intHandlerASM + '\n';
+  emit('# ====== Interrupt Handler START ======', `# Interrupt Handler Length = ${intHandlerInsCount}`);
+  allProgram.push(...toSourceLines(intHandlerASM, INT_HANDLER_FILE, sourceMaps.intHandler));
   if (intHandlerNopPadding > 0) {
-    allProgram += `# Interrupt Handler Padding = ${intHandlerNopPadding}\n`;
-    allProgram += 'nop\n'.repeat(intHandlerNopPadding);
+    emit(`# Interrupt Handler Padding = ${intHandlerNopPadding}`);
+    emitNops(intHandlerNopPadding);
   }
-  allProgram += '# ====== Interrupt Handler END ======\n';
+  emit('# ====== Interrupt Handler END ======', '');
 
-  return allProgram;
+  return fromSourceLines(allProgram);
+}
+
+/**
+ * 链接用户程序：代码段与 BIOS、中断处理程序链接，代码段之前的行（.equ、.macro、数据段等）保持不变
+ * @param source 已展开 .include 的用户程序
+ * @param sourceMap 用户程序每一行的原始位置
+ * @returns 链接后的完整程序及其行号映射
+ */
+export function linkUserProgram(
+  source: string,
+  sourceMap: SourceLocation[],
+  systemFiles: SystemFiles,
+  parserOptions: ParserOptions = {}
+): MappedSource {
+  const userLines = source.split('\n');
+  const dataSegStartLine = userLines.findIndex(v => v.match(/\.data/));
+  const textSegStartLine = userLines.findIndex(v => v.match(/\.text/));
+
+  if (dataSegStartLine === -1) {
+    throw new Error('未找到数据段开始');
+  }
+  if (textSegStartLine === -1) {
+    throw new Error('未找到代码段开始');
+  }
+  if (dataSegStartLine >= textSegStartLine) {
+    throw new Error('数据段不能位于代码段之后');
+  }
+
+  // 计算用户程序指令数时需要代码段之前的所有行（数据段中也可以定义常量）
+  const prelude = userLines.slice(0, textSegStartLine);
+  const linkedTextSegment = linkAll(
+    systemFiles.bios,
+    userLines.slice(textSegStartLine + 1).join('\n'),
+    systemFiles.intEntry,
+    systemFiles.intHandler,
+    parserOptions,
+    { ...systemFiles.sourceMaps, user: sourceMap.slice(textSegStartLine + 1) },
+    prelude.join('\n')
+  );
+
+  // 组合完整的程序（代码段之前的行 + 链接后的代码段），行号映射与之逐行对应
+  return {
+    source: [...prelude, '.text', linkedTextSegment.source].join('\n'),
+    sourceMap: [...sourceMap.slice(0, textSegStartLine), sourceMap[textSegStartLine], ...linkedTextSegment.sourceMap]
+  };
 }
 
 /**
@@ -191,19 +262,18 @@ export function linkAll(
  * 用户只能定义中断号 0-4，syscall（中断号5）是固定的
  */
 function mergeInterruptEntry(
-  userEntryContent: string,
-  syscallEntryLine: string
-): string {
-  const lines = userEntryContent.split('\n');
-  const resultLines: string[] = [];
+  userEntryLines: SourceLine[],
+  syscallEntryLine: SourceLine
+): SourceLine[] {
+  const resultLines: SourceLine[] = [];
   
   // 提取用户定义的中断向量（最多 5 个：0-4）
   // 只提取 j 指令或 nop 指令，忽略注释和其他内容
   let userVectorCount = 0;
   let hasStartedVectors = false;
   
-  for (const line of lines) {
-    const trimmed = line.trim();
+  for (const line of userEntryLines) {
+    const trimmed = line.text.trim();
     
     // 如果是注释或空行，在向量定义之前保留
     if (!trimmed || trimmed.startsWith('#')) {
@@ -230,14 +300,14 @@ function mergeInterruptEntry(
   
   // 如果用户没有定义满 5 个中断向量，用 nop 填充
   while (userVectorCount < 5) {
-    resultLines.push('nop');
+    resultLines.push(generatedLine('nop'));
     userVectorCount++;
   }
   
   // 追加 syscall 的中断向量（中断号5）
   resultLines.push(syscallEntryLine);
   
-  return resultLines.join('\n');
+  return resultLines;
 }
 
 /**
@@ -245,15 +315,14 @@ function mergeInterruptEntry(
  * 用户只能定义 interruptServer0-interruptServer4，_syscall 是固定的
  */
 function mergeInterruptHandler(
-  userHandlerContent: string,
-  defaultHandlerContent: string
-): string {
+  userHandlerLines: SourceLine[],
+  defaultHandlerLines: SourceLine[]
+): SourceLine[] {
   // 提取默认的 _syscall 部分
-  const defaultLines = defaultHandlerContent.split('\n');
   let syscallStartIndex = -1;
   
-  for (let i = 0; i < defaultLines.length; i++) {
-    const line = defaultLines[i].trim();
+  for (let i = 0; i < defaultHandlerLines.length; i++) {
+    const line = defaultHandlerLines[i].text.trim();
     if (line === '_syscall:' || line.startsWith('_syscall:')) {
       syscallStartIndex = i;
       break;
@@ -262,17 +331,16 @@ function mergeInterruptHandler(
   
   // 提取 _syscall 部分的完整内容（从 _syscall: 标签到文件末尾）
   const syscallPart = syscallStartIndex !== -1 
-    ? defaultLines.slice(syscallStartIndex).join('\n').trim()
-    : '';
+    ? trimBlankLines(defaultHandlerLines.slice(syscallStartIndex))
+    : [];
   
   // 合并用户处理程序和 syscall 处理程序
   // 移除用户文件中可能存在的 _syscall 标签和处理程序
-  const userLines = userHandlerContent.split('\n');
-  const cleanedUserLines: string[] = [];
+  const cleanedUserLines: SourceLine[] = [];
   let inSyscallSection = false;
   
-  for (const line of userLines) {
-    const trimmed = line.trim();
+  for (const line of userHandlerLines) {
+    const trimmed = line.text.trim();
     
     // 如果遇到 _syscall 标签，开始跳过
     if (trimmed === '_syscall:' || trimmed.startsWith('_syscall:')) {
@@ -295,14 +363,10 @@ function mergeInterruptHandler(
     }
   }
   
-  // 组合结果：用户定义的处理程序 + 默认的 _syscall 部分
-  let result = cleanedUserLines.join('\n').trim();
-  if (syscallPart) {
-    // 确保结果以换行结尾，然后添加 _syscall 部分
-    if (result && !result.endsWith('\n')) {
-      result += '\n';
-    }
-    result += '\n' + syscallPart;
+  // 组合结果：用户定义的处理程序 + 空行 + 默认的 _syscall 部分
+  const result = trimBlankLines(cleanedUserLines);
+  if (syscallPart.length > 0) {
+    result.push(generatedLine(''), ...syscallPart);
   }
   
   return result;
@@ -318,11 +382,7 @@ export function loadSystemFiles(
   snippetDir?: string,
   customIntEntryPath?: string,
   customIntHandlerPath?: string
-): {
-  bios: string;
-  intEntry: string;
-  intHandler: string;
-} {
+): SystemFiles {
   // 如果snippetDir未提供，尝试从多个可能的位置查找
   let defaultSnippetDir = snippetDir;
   if (!defaultSnippetDir) {
@@ -381,27 +441,26 @@ export function loadSystemFiles(
     throw new Error(`默认中断处理程序文件不存在: ${defaultIntHandlerPath}`);
   }
   
-  const defaultIntEntry = fs.readFileSync(defaultIntEntryPath, 'utf-8');
-  const defaultIntHandler = fs.readFileSync(defaultIntHandlerPath, 'utf-8');
+  const defaultIntEntry = toSourceLines(fs.readFileSync(defaultIntEntryPath, 'utf-8'), getDisplayPath(defaultIntEntryPath));
+  const defaultIntHandler = toSourceLines(fs.readFileSync(defaultIntHandlerPath, 'utf-8'), getDisplayPath(defaultIntHandlerPath));
   
   // 提取默认的 syscall 中断向量（中断号5）
-  const defaultEntryLines = defaultIntEntry.split('\n');
-  let syscallEntryLine = 'j _syscall            # 中断号5：syscall（作为异常处理）（0xF000 + 5*4 = 0xF014）';
-  for (const line of defaultEntryLines) {
-    if (line.includes('_syscall') && line.trim().startsWith('j')) {
-      syscallEntryLine = line.trim();
+  let syscallEntryLine = generatedLine('j _syscall            # 中断号5：syscall（作为异常处理）（0xF000 + 5*4 = 0xF014）');
+  for (const line of defaultIntEntry) {
+    if (line.text.includes('_syscall') && line.text.trim().startsWith('j')) {
+      syscallEntryLine = { text: line.text.trim(), location: line.location };
       break;
     }
   }
   
-  let finalIntEntry: string;
-  let finalIntHandler: string;
+  let finalIntEntry: SourceLine[];
+  let finalIntHandler: SourceLine[];
   
   // 如果提供了自定义文件，需要合并
   if (customIntEntryPath && customIntHandlerPath && 
       fs.existsSync(customIntEntryPath) && fs.existsSync(customIntHandlerPath)) {
-    const userIntEntry = fs.readFileSync(customIntEntryPath, 'utf-8');
-    const userIntHandler = fs.readFileSync(customIntHandlerPath, 'utf-8');
+    const userIntEntry = toSourceLines(fs.readFileSync(customIntEntryPath, 'utf-8'), getDisplayPath(customIntEntryPath));
+    const userIntHandler = toSourceLines(fs.readFileSync(customIntHandlerPath, 'utf-8'), getDisplayPath(customIntHandlerPath));
     
     // 合并中断入口文件（用户定义的 0-4 + 默认的 syscall）
     finalIntEntry = mergeInterruptEntry(userIntEntry, syscallEntryLine);
@@ -414,9 +473,61 @@ export function loadSystemFiles(
     finalIntHandler = defaultIntHandler;
   }
 
+  const bios = fromSourceLines(toSourceLines(fs.readFileSync(biosPath, 'utf-8'), getDisplayPath(biosPath)));
+  const intEntry = fromSourceLines(finalIntEntry);
+  const intHandler = fromSourceLines(finalIntHandler);
+
   return {
-    bios: fs.readFileSync(biosPath, 'utf-8'),
-    intEntry: finalIntEntry,
-    intHandler: finalIntHandler
+    bios: bios.source,
+    intEntry: intEntry.source,
+    intHandler: intHandler.source,
+    sourceMaps: {
+      bios: bios.sourceMap,
+      intEntry: intEntry.sourceMap,
+      intHandler: intHandler.sourceMap
+    }
   };
 }
+
+/**
+ * 将源代码拆分为带原始位置的行
+ * @param sourceMap 已有的行号映射（可选），未提供时按 file 的行号计算
+ */
+function toSourceLines(content: string, file: string, sourceMap?: SourceLocation[]): SourceLine[] {
+  return content.split('\n').map((text, index) => ({
+    text,
+    location: sourceMap?.[index] ?? { file, line: index + 1 }
+  }));
+}
+
+/**
+ * 将带原始位置的行合并为源代码和行号映射
+ */
+function fromSourceLines(lines: SourceLine[]): MappedSource {
+  return {
+    source: lines.map(line => line.text).join('\n'),
+    sourceMap: lines.map(line => line.location)
+  };
+}
+
+/**
+ * 链接器生成的行（注释、填充nop等）
+ */
+function generatedLine(text: string): SourceLine {
+  return { text, location: { file: LINKER_SOURCE_FILE, line: 0 } };
+}
+
+/**
+ * 去掉首尾的空行
+ */
+function trimBlankLines(lines: SourceLine[]): SourceLine[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].text.trim()) {
+    start++;
+  }
+  while (end > start && !lines[end - 1].text.trim()) {
+    end--;
+  }
+  return lines.slice(start, end);
+}
@@ -3,7 +3,8 @@
  * 将机器码格式化为各种输出格式
  */
 
-import { MemoryImage, Byte, REGISTER_NAMES } from '../core/types';
+import { MemoryImage, Byte, OperandType, REGISTER_NAMES, CP0_REGISTER_NAMES } from '../core/types';
+import { DecodedOperand, InstructionSet, MINISYS_1A_INSTRUCTION_SET, formatDecodedInstruction } from '../core/isa';
 
 // 输出格式枚举
 export enum OutputFormat {
@@ -17,9 +18,11 @@ export enum OutputFormat {
 // 格式化器类
 export class Formatter {
   private memoryImage: MemoryImage;
+  private instructionSet: InstructionSet; // 反汇编使用的指令集，与汇编时相同
 
-  constructor(memoryImage: MemoryImage) {
+  constructor(memoryImage: MemoryImage, instructionSet: InstructionSet = MINISYS_1A_INSTRUCTION_SET) {
     this.memoryImage = memoryImage;
+    this.instructionSet = instructionSet;
   }
 
   /**
@@ -234,129 +237,29 @@ export class Formatter {
       return 'nop';
     }
 
-    const opcode = (word >>> 26) & 0x3F;
-    const rs = (word >>> 21) & 0x1F;
-    const rt = (word >>> 16) & 0x1F;
-    const rd = (word >>> 11) & 0x1F;
-    const shamt = (word >>> 6) & 0x1F;
-    const funct = word & 0x3F;
-    const immediate = word & 0xFFFF;
-    const target = word & 0x3FFFFFF;
-
-    const rsName = REGISTER_NAMES[rs];
-    const rtName = REGISTER_NAMES[rt];
-    const rdName = REGISTER_NAMES[rd];
-
-    const signExtend16 = (value: number): number => (value & 0x8000) ? (value | 0xFFFF0000) : value;
-    const immediateHex = `0x${(immediate >>> 0).toString(16)}`;
-
-    if (opcode === 0x00) {
-      switch (funct) {
-        case 0x20: return `add ${rdName}, ${rsName}, ${rtName}`;
-        case 0x21: return `addu ${rdName}, ${rsName}, ${rtName}`;
-        case 0x22: return `sub ${rdName}, ${rsName}, ${rtName}`;
-        case 0x23: return `subu ${rdName}, ${rsName}, ${rtName}`;
-        case 0x24: return `and ${rdName}, ${rsName}, ${rtName}`;
-        case 0x25: return `or ${rdName}, ${rsName}, ${rtName}`;
-        case 0x26: return `xor ${rdName}, ${rsName}, ${rtName}`;
-        case 0x27: return `nor ${rdName}, ${rsName}, ${rtName}`;
-        case 0x2A: return `slt ${rdName}, ${rsName}, ${rtName}`;
-        case 0x2B: return `sltu ${rdName}, ${rsName}, ${rtName}`;
-        case 0x00: return shamt === 0 && rd === 0 && rt === 0 ? 'nop' : `sll ${rdName}, ${rtName}, ${shamt}`;
-        case 0x02: return `srl ${rdName}, ${rtName}, ${shamt}`;
-        case 0x03: return `sra ${rdName}, ${rtName}, ${shamt}`;
-        case 0x04: return `sllv ${rdName}, ${rtName}, ${rsName}`;
-        case 0x06: return `srlv ${rdName}, ${rtName}, ${rsName}`;
-        case 0x07: return `srav ${rdName}, ${rtName}, ${rsName}`;
-        case 0x08: return `jr ${rsName}`;
-        case 0x09: return `jalr ${rdName}, ${rsName}`;
-        case 0x18: return `mult ${rsName}, ${rtName}`;
-        case 0x19: return `multu ${rsName}, ${rtName}`;
-        case 0x1A: return `div ${rsName}, ${rtName}`;
-        case 0x1B: return `divu ${rsName}, ${rtName}`;
-        case 0x10: return `mfhi ${rdName}`;
-        case 0x12: return `mflo ${rdName}`;
-        case 0x11: return `mthi ${rsName}`;
-        case 0x13: return `mtlo ${rsName}`;
-        case 0x0C: return 'syscall';
-        case 0x0D: return 'break';
-        default:
-          return `unknown_r_type (funct=0x${funct.toString(16)})`;
-      }
-    }
-
-    if (opcode === 0x02) {
-      const jumpTarget = ((address >>> 28) << 28) | (target << 2);
-      return `j 0x${jumpTarget.toString(16)}`;
-    }
-
-    if (opcode === 0x03) {
-      const jumpTarget = ((address >>> 28) << 28) | (target << 2);
-      return `jal 0x${jumpTarget.toString(16)}`;
+    const decoded = this.instructionSet.decode(word, address);
+    if (!decoded) {
+      const opcode = (word >>> 26) & 0x3F;
+      return opcode === 0x00
+        ? `unknown_r_type (funct=0x${(word & 0x3F).toString(16)})`
+        : `unknown (opcode=0x${opcode.toString(16)})`;
     }
 
-    if (opcode === 0x10) {
-      if (word === 0x42000018) {
-        return 'eret';
-      }
-      if (rs === 0x00) {
-        return `mfc0 ${rtName}, $${rd}`;
-      }
-      if (rs === 0x04) {
-        return `mtc0 ${rtName}, $${rd}`;
-      }
-      return `cp0 0x${word.toString(16)}`;
-    }
-
-    switch (opcode) {
-      case 0x08: return `addi ${rtName}, ${rsName}, ${signExtend16(immediate)}`;
-      case 0x09: return `addiu ${rtName}, ${rsName}, ${signExtend16(immediate)}`;
-      case 0x0C: return `andi ${rtName}, ${rsName}, ${immediateHex}`;
-      case 0x0D: return `ori ${rtName}, ${rsName}, ${immediateHex}`;
-      case 0x0E: return `xori ${rtName}, ${rsName}, ${immediateHex}`;
-      case 0x0F: return `lui ${rtName}, ${immediateHex}`;
-      case 0x0A: return `slti ${rtName}, ${rsName}, ${signExtend16(immediate)}`;
-      case 0x0B: return `sltiu ${rtName}, ${rsName}, ${signExtend16(immediate)}`;
-      case 0x04: {
-        const branchTarget = address + 4 + (signExtend16(immediate) << 2);
-        return `beq ${rsName}, ${rtName}, 0x${branchTarget.toString(16)}`;
-      }
-      case 0x05: {
-        const branchTarget = address + 4 + (signExtend16(immediate) << 2);
-        return `bne ${rsName}, ${rtName}, 0x${branchTarget.toString(16)}`;
-      }
-      case 0x06: {
-        const branchTarget = address + 4 + (signExtend16(immediate) << 2);
-        return `blez ${rsName}, 0x${branchTarget.toString(16)}`;
-      }
-      case 0x07: {
-        const branchTarget = address + 4 + (signExtend16(immediate) << 2);
-        return `bgtz ${rsName}, 0x${branchTarget.toString(16)}`;
-      }
-      case 0x01: {
-        const branchTarget = address + 4 + (signExtend16(immediate) << 2);
-        if (rt === 0x00) {
-          return `bltz ${rsName}, 0x${branchTarget.toString(16)}`;
-        } else if (rt === 0x01) {
-          return `bgez ${rsName}, 0x${branchTarget.toString(16)}`;
-        } else if (rt === 0x10) {
-          return `bltzal ${rsName}, 0x${branchTarget.toString(16)}`;
-        } else if (rt === 0x11) {
-          return `bgezal ${rsName}, 0x${branchTarget.toString(16)}`;
-        }
-        break;
+    const isCP0 = decoded.definition.encoding === 'CP0';
+    return formatDecodedInstruction(decoded, ({ definition, value }: DecodedOperand) => {
+      switch (definition.type) {
+        case OperandType.REGISTER:
+          // mfc0/mtc0 的 rd 是 CP0 寄存器号，有名称的写名称
+          return isCP0 && definition.name === 'rd' ? `$${CP0_REGISTER_NAMES.get(value) ?? value}` : `$${REGISTER_NAMES.get(value) ?? value}`;
+        case OperandType.LABEL:
+          return `0x${value.toString(16)}`;
+        case OperandType.IMMEDIATE:
+          // 零扩展的16位立即数显示为十六进制
+          return definition.bits === 16 && !definition.signed ? `0x${value.toString(16)}` : `${value}`;
+        default:
+          return `${value}`;
       }
-      case 0x20: return `lb ${rtName}, ${signExtend16(immediate)}(${rsName})`;
-      case 0x24: return `lbu ${rtName}, ${signExtend16(immediate)}(${rsName})`;
-      case 0x21: return `lh ${rtName}, ${signExtend16(immediate)}(${rsName})`;
-      case 0x25: return `lhu ${rtName}, ${signExtend16(immediate)}(${rsName})`;
-      case 0x28: return `sb ${rtName}, ${signExtend16(immediate)}(${rsName})`;
-      case 0x29: return `sh ${rtName}, ${signExtend16(immediate)}(${rsName})`;
-      case 0x23: return `lw ${rtName}, ${signExtend16(immediate)}(${rsName})`;
-      case 0x2B: return `sw ${rtName}, ${signExtend16(immediate)}(${rsName})`;
-      default:
-        return `unknown (opcode=0x${opcode.toString(16)})`;
-    }
+    });
   }
 
   /**
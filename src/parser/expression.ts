@@ -0,0 +1,248 @@
+/**
+ * 常量表达式
+ * 解析并求值操作数和数据定义中的算术表达式
+ */
+
+import { Token, TokenType } from './lexer';
+import { ExpressionNode } from '../core/types';
+
+// 二元运算符优先级（数值越大优先级越高，与C语言一致）
+const BINARY_PRECEDENCE: Map<TokenType, number> = new Map([
+  [TokenType.LOGICAL_OR, 1],
+  [TokenType.LOGICAL_AND, 2],
+  [TokenType.PIPE, 3],
+  [TokenType.CARET, 4],
+  [TokenType.AMPERSAND, 5],
+  [TokenType.EQ, 6],
+  [TokenType.NE, 6],
+  [TokenType.LT, 7],
+  [TokenType.GT, 7],
+  [TokenType.LE, 7],
+  [TokenType.GE, 7],
+  [TokenType.SHL, 8],
+  [TokenType.SHR, 8],
+  [TokenType.PLUS, 9],
+  [TokenType.MINUS, 9],
+  [TokenType.STAR, 10],
+  [TokenType.SLASH, 10],
+  [TokenType.PERCENT, 10]
+]);
+
+// 一元运算符
+const UNARY_OPERATORS = new Set([TokenType.PLUS, TokenType.MINUS, TokenType.TILDE, TokenType.BANG]);
+
+// 符号解析函数：返回符号的值，未定义时返回undefined
+export type SymbolResolver = (name: string) => number | undefined;
+
+/**
+ * 检查标记是否可以作为表达式的开始
+ */
+export function isExpressionStart(token: Token, next?: Token): boolean {
+  switch (token.type) {
+    case TokenType.NUMBER:
+    case TokenType.HEX_NUMBER:
+    case TokenType.IDENTIFIER:
+    case TokenType.LOCAL_LABEL_REF:
+      return true;
+    case TokenType.LPAREN:
+      // ($reg) 是内存地址而不是括号表达式
+      return !next || next.type !== TokenType.DOLLAR;
+    default:
+      return UNARY_OPERATORS.has(token.type);
+  }
+}
+
+// 表达式解析器类
+export class ExpressionParser {
+  private tokens: Token[];
+  private position: number;
+
+  constructor(tokens: Token[], position: number) {
+    this.tokens = tokens;
+    this.position = position;
+  }
+
+  /**
+   * 解析表达式
+   */
+  public parse(): ExpressionNode {
+    return this.parseBinary(1);
+  }
+
+  /**
+   * 获取解析结束后的位置
+   */
+  public getPosition(): number {
+    return this.position;
+  }
+
+  /**
+   * 按优先级爬升解析二元表达式
+   */
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    while (true) {
+      const precedence = BINARY_PRECEDENCE.get(this.peek().type);
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      const operator = this.advance().value;
+      const right = this.parseBinary(precedence + 1);
+      left = { type: 'binary', operator, left, right };
+    }
+  }
+
+  /**
+   * 解析一元表达式
+   */
+  private parseUnary(): ExpressionNode {
+    if (UNARY_OPERATORS.has(this.peek().type)) {
+      const operator = this.advance().value;
+      return { type: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  /**
+   * 解析基本表达式：数字、符号或括号表达式
+   */
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case TokenType.NUMBER:
+        this.advance();
+        return { type: 'number', value: parseInt(token.value, 10) };
+      case TokenType.HEX_NUMBER:
+        this.advance();
+        return { type: 'number', value: parseInt(token.value, 16) };
+      case TokenType.IDENTIFIER:
+      case TokenType.LOCAL_LABEL_REF:
+        this.advance();
+        return { type: 'symbol', name: token.value };
+      case TokenType.LPAREN: {
+        this.advance();
+        const inner = this.parse();
+        if (this.peek().type !== TokenType.RPAREN) {
+          throw new Error(`Expected ) in expression, got ${this.describe(this.peek())}`);
+        }
+        this.advance();
+        return inner;
+      }
+      default:
+        throw new Error(`Unexpected ${this.describe(token)} in expression`);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.type === TokenType.NEWLINE || token.type === TokenType.EOF ? 'end of line' : `'${token.value}'`;
+  }
+
+  private peek(): Token {
+    const token = this.tokens[this.position];
+    return token || { type: TokenType.EOF, value: '', line: 0, column: 0, position: 0 };
+  }
+
+  private advance(): Token {
+    return this.tokens[this.position++];
+  }
+}
+
+/**
+ * 对表达式求值
+ * 符号未定义或除数为0时抛出错误
+ */
+export function evaluateExpression(node: ExpressionNode, resolve: SymbolResolver): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'symbol': {
+      const value = resolve(node.name);
+      if (value === undefined) {
+        throw new Error(`Undefined symbol: ${node.name}`);
+      }
+      return value;
+    }
+    case 'unary': {
+      const operand = evaluateExpression(node.operand, resolve);
+      switch (node.operator) {
+        case '-': return -operand;
+        case '~': return ~operand;
+        case '!': return operand === 0 ? 1 : 0;
+        default: return operand;
+      }
+    }
+    case 'binary': {
+      const left = evaluateExpression(node.left, resolve);
+      const right = evaluateExpression(node.right, resolve);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+          if (right === 0) {
+            throw new Error('Division by zero in expression');
+          }
+          return Math.trunc(left / right);
+        case '%':
+          if (right === 0) {
+            throw new Error('Division by zero in expression');
+          }
+          return left % right;
+        case '<<': return left << right;
+        // 逻辑右移：地址常用 (addr >> 16) 取高半字，算术右移会把 0x80000000 以上的地址变成负数
+        case '>>': return left >>> right;
+        case '&': return left & right;
+        case '|': return left | right;
+        case '^': return left ^ right;
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+        case '<': return left < right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        case '&&': return left !== 0 && right !== 0 ? 1 : 0;
+        case '||': return left !== 0 || right !== 0 ? 1 : 0;
+        default:
+          throw new Error(`Unknown operator: ${node.operator}`);
+      }
+    }
+  }
+}
+
+/**
+ * 收集表达式中引用的所有符号
+ */
+export function getExpressionSymbols(node: ExpressionNode): string[] {
+  switch (node.type) {
+    case 'number':
+      return [];
+    case 'symbol':
+      return [node.name];
+    case 'unary':
+      return getExpressionSymbols(node.operand);
+    case 'binary':
+      return [...getExpressionSymbols(node.left), ...getExpressionSymbols(node.right)];
+  }
+}
+
+/**
+ * 对表达式中引用的每个符号重命名，返回新的表达式
+ */
+export function mapExpressionSymbols(node: ExpressionNode, rename: (name: string) => string): ExpressionNode {
+  switch (node.type) {
+    case 'number':
+      return node;
+    case 'symbol':
+      return { type: 'symbol', name: rename(node.name) };
+    case 'unary':
+      return { ...node, operand: mapExpressionSymbols(node.operand, rename) };
+    case 'binary':
+      return {
+        ...node,
+        left: mapExpressionSymbols(node.left, rename),
+        right: mapExpressionSymbols(node.right, rename)
+      };
+  }
+}
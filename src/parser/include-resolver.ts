@@ -0,0 +1,160 @@
+/**
+ * 文件包含处理
+ * 在词法分析之前展开 .include "file.asm"，并记录展开后每一行对应的原始文件和行号
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AssemblyError, MappedSource, SourceLocation } from '../core/types';
+
+// 未指定文件名时使用的源文件名
+export const DEFAULT_SOURCE_FILE = '<source>';
+
+// .include 指示：.include "file.asm"（允许行尾注释）
+const INCLUDE_PATTERN = /^\s*\.include\b\s*(.*)$/;
+const INCLUDE_ARGUMENT_PATTERN = /^"([^"]+)"\s*(#.*)?$/;
+
+// 包含处理结果
+export interface IncludeResult extends MappedSource {
+  errors: AssemblyError[];
+}
+
+// 文件包含处理器类
+export class IncludeResolver {
+  private includePaths: string[];
+  private errors: AssemblyError[] = [];
+  private lines: string[] = [];
+  private sourceMap: SourceLocation[] = [];
+
+  constructor(includePaths: string[] = []) {
+    this.includePaths = includePaths;
+  }
+
+  /**
+   * 展开源代码中的所有 .include 指示
+   * @param source 源代码
+   * @param file 源代码所在的文件，用于解析相对路径和报告错误
+   * @param sourceMap 源代码每一行的原始位置（可选，如链接后的源代码），提供时优先于 file
+   */
+  public resolve(source: string, file: string = DEFAULT_SOURCE_FILE, sourceMap?: SourceLocation[]): IncludeResult {
+    this.errors = [];
+    this.lines = [];
+    this.sourceMap = [];
+
+    const lines = source.split(/\r?\n/);
+    const locations = lines.map((_, index) => sourceMap?.[index] ?? { file, line: index + 1 });
+    this.expand(lines, locations, []);
+
+    return {
+      source: this.lines.join('\n'),
+      sourceMap: this.sourceMap,
+      errors: this.errors
+    };
+  }
+
+  /**
+   * 递归展开源代码行
+   * @param locations 每一行的原始位置
+   * @param stack 包含链上的文件（绝对路径），用于检测循环包含；顶层为空
+   */
+  private expand(lines: string[], locations: SourceLocation[], stack: string[]): void {
+    lines.forEach((line, index) => {
+      const location = locations[index];
+      const match = line.match(INCLUDE_PATTERN);
+      if (!match) {
+        this.lines.push(line);
+        this.sourceMap.push(location);
+        return;
+      }
+
+      // 指示行本身替换为空行，保持行号映射
+      this.lines.push('');
+      this.sourceMap.push(location);
+
+      const argument = match[1].match(INCLUDE_ARGUMENT_PATTERN);
+      if (!argument) {
+        this.addError('SYNTAX', 'Expected quoted file name after .include', location, line);
+        return;
+      }
+
+      const includePath = this.findFile(argument[1], location.file);
+      if (!includePath) {
+        this.addError('SEMANTIC', `Include file not found: ${argument[1]}`, location, line);
+        return;
+      }
+
+      const chain = stack.length > 0 || location.file === DEFAULT_SOURCE_FILE
+        ? stack
+        : [path.resolve(location.file)];
+      if (chain.includes(includePath)) {
+        const names = [...chain, includePath].map(p => path.basename(p)).join(' -> ');
+        this.addError('SEMANTIC', `Include cycle detected: ${names}`, location, line);
+        return;
+      }
+
+      let content: string;
+      try {
+        content = fs.readFileSync(includePath, 'utf8');
+      } catch (error) {
+        this.addError('SEMANTIC', `Cannot read include file ${argument[1]}: ${error.message}`, location, line);
+        return;
+      }
+
+      const includedFile = getDisplayPath(includePath);
+      const includedLines = content.split(/\r?\n/);
+      this.expand(
+        includedLines,
+        includedLines.map((_, i) => ({ file: includedFile, line: i + 1 })),
+        [...chain, includePath]
+      );
+    });
+  }
+
+  /**
+   * 查找被包含的文件：先在包含者所在目录查找，再依次查找包含路径
+   */
+  private findFile(name: string, includingFile: string): string | undefined {
+    if (path.isAbsolute(name)) {
+      return fs.existsSync(name) ? path.resolve(name) : undefined;
+    }
+
+    const baseDir = includingFile === DEFAULT_SOURCE_FILE ? process.cwd() : path.dirname(path.resolve(includingFile));
+    for (const dir of [baseDir, ...this.includePaths]) {
+      const candidate = path.resolve(dir, name);
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 添加错误
+   */
+  private addError(type: AssemblyError['type'], message: string, location: SourceLocation, sourceLine: string): void {
+    this.errors.push({ type, message, file: location.file, lineNumber: location.line, sourceLine });
+  }
+}
+
+/**
+ * 诊断信息中显示的文件名（当前目录下的文件使用相对路径）
+ */
+export function getDisplayPath(filePath: string): string {
+  const relative = path.relative(process.cwd(), filePath);
+  return relative && !relative.startsWith('..') ? relative : filePath;
+}
+
+/**
+ * 将展开后源代码中的行号映射为原始文件和行号
+ */
+export function applySourceLocation<T extends { lineNumber: number; file?: string }>(
+  diagnostic: T,
+  sourceMap: SourceLocation[] | undefined
+): T {
+  const location = sourceMap && diagnostic.lineNumber > 0 ? sourceMap[diagnostic.lineNumber - 1] : undefined;
+  if (!location || diagnostic.file) {
+    return diagnostic;
+  }
+  return { ...diagnostic, file: location.file, lineNumber: location.line };
+}
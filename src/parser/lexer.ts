@@ -3,7 +3,7 @@
  * 将汇编源代码分解为标记流
  */
 
-import { AssemblyError } from '../core/types';
+import { AssemblyError, MacroExpansionInfo } from '../core/types';
 
 // 标记类型
 export enum TokenType {
@@ -26,16 +26,67 @@ export enum TokenType {
   RPAREN = 'RPAREN',
   DOLLAR = 'DOLLAR',
   
+  // 运算符
+  PLUS = 'PLUS',
+  MINUS = 'MINUS',
+  STAR = 'STAR',
+  SLASH = 'SLASH',
+  PERCENT = 'PERCENT',
+  SHL = 'SHL',
+  SHR = 'SHR',
+  AMPERSAND = 'AMPERSAND',
+  PIPE = 'PIPE',
+  CARET = 'CARET',
+  TILDE = 'TILDE',
+  BANG = 'BANG',
+  EQ = 'EQ',
+  NE = 'NE',
+  LT = 'LT',
+  GT = 'GT',
+  LE = 'LE',
+  GE = 'GE',
+  LOGICAL_AND = 'LOGICAL_AND',
+  LOGICAL_OR = 'LOGICAL_OR',
+  
   // 数据定义
   DOT_BYTE = 'DOT_BYTE',
   DOT_WORD = 'DOT_WORD',
   DOT_HALF = 'DOT_HALF',
   DOT_ASCII = 'DOT_ASCII',
+  DOT_ASCIIZ = 'DOT_ASCIIZ',
   DOT_SPACE = 'DOT_SPACE',
   
+  // 对齐和定位
+  DOT_ALIGN = 'DOT_ALIGN',
+  DOT_BALIGN = 'DOT_BALIGN',
+  DOT_ORG = 'DOT_ORG',
+  
+  // 宏定义
+  DOT_MACRO = 'DOT_MACRO',
+  DOT_ENDM = 'DOT_ENDM',
+  DOT_DEFAULT_MACROS = 'DOT_DEFAULT_MACROS',
+  
+  // 符号常量
+  DOT_EQU = 'DOT_EQU',
+  DOT_SET = 'DOT_SET',
+  DOT_EQV = 'DOT_EQV',
+  
+  // 条件汇编
+  DOT_IF = 'DOT_IF',
+  DOT_IFDEF = 'DOT_IFDEF',
+  DOT_IFNDEF = 'DOT_IFNDEF',
+  DOT_ELSE = 'DOT_ELSE',
+  DOT_ENDIF = 'DOT_ENDIF',
+  
+  // 重复
+  DOT_REPT = 'DOT_REPT',
+  DOT_IRP = 'DOT_IRP',
+  DOT_ENDR = 'DOT_ENDR',
+  
   // 字面量
   STRING = 'STRING',
   NUMBER = 'NUMBER',
+  LOCAL_LABEL_REF = 'LOCAL_LABEL_REF', // 数字局部标签引用：1b、1f
   HEX_NUMBER = 'HEX_NUMBER',
   
   // 其他
@@ -53,6 +104,69 @@ export interface Token {
   line: number;
   column: number;
   position: number;
+  expansion?: MacroExpansionInfo; // 由宏展开产生的标记记录宏体来源
+  expansionDepth?: number;
+}
+
+// 单字符运算符
+const SINGLE_CHAR_OPERATORS: Map<string, TokenType> = new Map([
+  ['+', TokenType.PLUS],
+  ['-', TokenType.MINUS],
+  ['*', TokenType.STAR],
+  ['/', TokenType.SLASH],
+  ['%', TokenType.PERCENT],
+  ['&', TokenType.AMPERSAND],
+  ['|', TokenType.PIPE],
+  ['^', TokenType.CARET],
+  ['~', TokenType.TILDE],
+  ['!', TokenType.BANG],
+  ['<', TokenType.LT],
+  ['>', TokenType.GT]
+]);
+
+// 字符串中的转义序列（\xHH 单独处理）
+const ESCAPE_SEQUENCES: Map<string, string> = new Map([
+  ['n', '\n'],
+  ['t', '\t'],
+  ['r', '\r'],
+  ['0', '\0'],
+  ['\\', '\\'],
+  ['"', '"'],
+  ["'", "'"]
+]);
+
+// 双字符运算符（优先于单字符运算符匹配）
+const TWO_CHAR_OPERATORS: Map<string, TokenType> = new Map([
+  ['<<', TokenType.SHL],
+  ['>>', TokenType.SHR],
+  ['==', TokenType.EQ],
+  ['!=', TokenType.NE],
+  ['<=', TokenType.LE],
+  ['>=', TokenType.GE],
+  ['&&', TokenType.LOGICAL_AND],
+  ['||', TokenType.LOGICAL_OR]
+]);
+
+/**
+ * 将字符串值重新写成带引号和转义序列的字面量（宏实参需要重新词法分析）
+ */
+export function quoteString(value: string): string {
+  let result = '"';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '"' || char === '\\') {
+      result += '\\' + char;
+    } else if (char === '\n') {
+      result += '\\n';
+    } else if (char === '\t') {
+      result += '\\t';
+    } else if (code < 0x20 || code === 0x7F) {
+      result += '\\x' + code.toString(16).padStart(2, '0');
+    } else {
+      result += char;
+    }
+  }
+  return result + '"';
 }
 
 // 词法分析器类
@@ -61,6 +175,7 @@ export class Lexer {
   private position: number = 0;
   private line: number = 1;
   private column: number = 1;
+  private tokenColumn: number = 1; // 正在扫描的标记的起始列
   private tokens: Token[] = [];
   private errors: AssemblyError[] = [];
 
@@ -80,6 +195,7 @@ export class Lexer {
 
     while (this.position < this.source.length) {
       const char = this.source[this.position];
+      this.tokenColumn = this.column;
       
       if (this.isWhitespace(char)) {
         this.advance();
@@ -107,7 +223,15 @@ export class Lexer {
         this.scanString();
       } else if (char === '.') {
         this.scanDirective();
-      } else if (this.isDigit(char) || (char === '-' && this.position + 1 < this.source.length && this.isDigit(this.source[this.position + 1]))) {
+      } else if (TWO_CHAR_OPERATORS.has(this.source.slice(this.position, this.position + 2))) {
+        const operator = this.source.slice(this.position, this.position + 2);
+        this.addToken(TWO_CHAR_OPERATORS.get(operator)!, operator);
+        this.advance();
+        this.advance();
+      } else if (SINGLE_CHAR_OPERATORS.has(char)) {
+        this.addToken(SINGLE_CHAR_OPERATORS.get(char)!, char);
+        this.advance();
+      } else if (this.isDigit(char)) {
         this.scanNumber();
       } else if (this.isAlpha(char)) {
         this.scanIdentifier();
@@ -117,6 +241,7 @@ export class Lexer {
       }
     }
 
+    this.tokenColumn = this.column;
     this.addToken(TokenType.EOF, '');
     return { tokens: this.tokens, errors: this.errors };
   }
@@ -137,26 +262,61 @@ export class Lexer {
    * 扫描字符串
    */
   private scanString(): void {
-    const start = this.position;
     this.advance(); // 跳过开始的引号
+    let value = '';
     
-    while (this.position < this.source.length && (this.source[this.position] || '') !== '"') {
-      if ((this.source[this.position] || '') === '\\') {
-        this.advance(); // 跳过转义字符
+    while (this.position < this.source.length && this.source[this.position] !== '"' && this.source[this.position] !== '\n') {
+      if (this.source[this.position] === '\\') {
+        value += this.scanEscapeSequence();
+      } else {
+        value += this.source[this.position];
+        this.advance();
       }
-      this.advance();
     }
     
-    if (this.position >= this.source.length) {
+    if (this.position >= this.source.length || this.source[this.position] !== '"') {
       this.addError('Unterminated string literal');
       return;
     }
     
     this.advance(); // 跳过结束的引号
-    const value = this.source.substring(start + 1, this.position - 1);
     this.addToken(TokenType.STRING, value);
   }
 
+  /**
+   * 扫描字符串中的转义序列，返回转义后的字符
+   */
+  private scanEscapeSequence(): string {
+    this.advance(); // 跳过反斜杠
+    const char = this.source[this.position] || '';
+    
+    if (char === 'x') {
+      this.advance();
+      let hex = '';
+      while (hex.length < 2 && this.isHexDigit(this.source[this.position] || '')) {
+        hex += this.source[this.position];
+        this.advance();
+      }
+      if (!hex) {
+        this.addError('Invalid \\x escape sequence: expected hex digits');
+        return 'x';
+      }
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+    
+    if (char === '\n' || !char) {
+      return ''; // 交给调用者报告未结束的字符串
+    }
+    
+    this.advance();
+    const escaped = ESCAPE_SEQUENCES.get(char);
+    if (escaped === undefined) {
+      this.addError(`Unknown escape sequence: \\${char}`);
+      return char;
+    }
+    return escaped;
+  }
+
   /**
    * 扫描指令
    */
@@ -189,9 +349,63 @@ export class Lexer {
       case '.ascii':
         this.addToken(TokenType.DOT_ASCII, value);
         break;
+      case '.asciiz':
+        this.addToken(TokenType.DOT_ASCIIZ, value);
+        break;
       case '.space':
         this.addToken(TokenType.DOT_SPACE, value);
         break;
+      case '.align':
+        this.addToken(TokenType.DOT_ALIGN, value);
+        break;
+      case '.balign':
+        this.addToken(TokenType.DOT_BALIGN, value);
+        break;
+      case '.org':
+        this.addToken(TokenType.DOT_ORG, value);
+        break;
+      case '.macro':
+        this.addToken(TokenType.DOT_MACRO, value);
+        break;
+      case '.endm':
+        this.addToken(TokenType.DOT_ENDM, value);
+        break;
+      case '.default_macros':
+        this.addToken(TokenType.DOT_DEFAULT_MACROS, value);
+        break;
+      case '.equ':
+        this.addToken(TokenType.DOT_EQU, value);
+        break;
+      case '.set':
+        this.addToken(TokenType.DOT_SET, value);
+        break;
+      case '.eqv':
+        this.addToken(TokenType.DOT_EQV, value);
+        break;
+      case '.if':
+        this.addToken(TokenType.DOT_IF, value);
+        break;
+      case '.ifdef':
+        this.addToken(TokenType.DOT_IFDEF, value);
+        break;
+      case '.ifndef':
+        this.addToken(TokenType.DOT_IFNDEF, value);
+        break;
+      case '.else':
+        this.addToken(TokenType.DOT_ELSE, value);
+        break;
+      case '.endif':
+        this.addToken(TokenType.DOT_ENDIF, value);
+        break;
+      case '.rept':
+        this.addToken(TokenType.DOT_REPT, value);
+        break;
+      case '.irp':
+        this.addToken(TokenType.DOT_IRP, value);
+        break;
+      case '.endr':
+        this.addToken(TokenType.DOT_ENDR, value);
+        break;
       default:
         this.addToken(TokenType.IDENTIFIER, value);
     }
@@ -199,16 +413,10 @@ export class Lexer {
 
   /**
    * 扫描数字
+   * 负号作为运算符单独成为标记，由表达式解析处理
    */
   private scanNumber(): void {
     const start = this.position;
-    let isNegative = false;
-    
-    // 检查是否为负数
-    if ((this.source[this.position] || '') === '-') {
-      isNegative = true;
-      this.advance();
-    }
     
     if ((this.source[this.position] || '') === '0' && 
         this.position + 1 < this.source.length && 
@@ -221,10 +429,7 @@ export class Lexer {
         this.advance();
       }
       
-      let value = this.source.substring(start + (isNegative ? 1 : 0), this.position);
-      if (isNegative) {
-        value = '-' + value;
-      }
+      const value = this.source.substring(start, this.position);
       this.addToken(TokenType.HEX_NUMBER, value);
     } else {
       // 十进制数字
@@ -232,7 +437,15 @@ export class Lexer {
         this.advance();
       }
       
-      let value = this.source.substring(start, this.position);
+      // 数字局部标签引用：1b（向后最近）、1f（向前最近）
+      const suffix = this.source[this.position] || '';
+      if ((suffix === 'b' || suffix === 'f') && !this.isAlphaNumeric(this.source[this.position + 1] || '')) {
+        this.advance();
+        this.addToken(TokenType.LOCAL_LABEL_REF, this.source.substring(start, this.position));
+        return;
+      }
+      
+      const value = this.source.substring(start, this.position);
       this.addToken(TokenType.NUMBER, value);
     }
   }
@@ -243,8 +456,19 @@ export class Lexer {
   private scanIdentifier(): void {
     const start = this.position;
     
-    while (this.position < this.source.length && this.isAlphaNumeric(this.source[this.position] || '')) {
-      this.advance();
+    while (this.position < this.source.length) {
+      if (this.isAlphaNumeric(this.source[this.position] || '')) {
+        this.advance();
+      } else if (this.source[this.position] === '.' && this.isAlpha(this.source[this.position + 1] || '')) {
+        // 限定名称中的点号，如 interruptServer0.loop
+        this.advance();
+      } else if (this.isMacroUniqueSuffix()) {
+        // 宏体中的 \@ 属于标识符的一部分，展开时替换为唯一编号
+        this.advance();
+        this.advance();
+      } else {
+        break;
+      }
     }
     
     const value = this.source.substring(start, this.position);
@@ -265,7 +489,7 @@ export class Lexer {
       type,
       value,
       line: this.line,
-      column: this.column,
+      column: this.tokenColumn,
       position: this.position
     });
   }
@@ -341,6 +565,13 @@ export class Lexer {
     return this.isAlpha(char || '') || this.isDigit(char || '');
   }
 
+  /**
+   * 检查当前位置是否为宏唯一后缀 \@
+   */
+  private isMacroUniqueSuffix(): boolean {
+    return (this.source[this.position] || '') === '\\' && (this.source[this.position + 1] || '') === '@';
+  }
+
   /**
    * 检查标识符是否为寄存器
    */
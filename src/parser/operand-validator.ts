@@ -0,0 +1,188 @@
+/**
+ * 操作数检查
+ * 根据指令集中的操作数定义检查指令的操作数个数和种类，并为拼写错误的助记符给出建议
+ */
+
+import { Operand, OperandType } from '../core/types';
+import { InstructionDefinition, OperandDefinition, PseudoInstruction } from '../core/instruction-set';
+
+// 操作数问题：index 为出错操作数的下标，操作数缺失时为 undefined（指向助记符）
+export interface OperandIssue {
+  index?: number;
+  message: string;
+}
+
+// 源代码中的操作数：offset 和 rs 合写为一个 offset(rs)
+interface SourceOperand {
+  name: string;
+  accepts: OperandType[];
+  required: boolean;
+  cp0?: boolean; // 是否接受 CP0 寄存器名称（mfc0/mtc0 的 rd）
+  alternatives?: OperandType[]; // 伪指令签名中可以是几种操作数之一时的各种操作数，用于错误信息
+}
+
+// 每种操作数定义可接受的源操作数种类（立即数位置也可以写标签地址，跳转目标也可以写立即数地址，
+// 访存地址也可以写标签或绝对地址，由 PseudoExpander 经 $at 展开）
+const ACCEPTED_OPERAND_TYPES: Map<OperandType, OperandType[]> = new Map([
+  [OperandType.REGISTER, [OperandType.REGISTER]],
+  [OperandType.IMMEDIATE, [OperandType.IMMEDIATE, OperandType.LABEL]],
+  [OperandType.LABEL, [OperandType.LABEL, OperandType.IMMEDIATE]],
+  [OperandType.ADDRESS, [OperandType.ADDRESS, OperandType.LABEL, OperandType.IMMEDIATE]]
+]);
+
+// 操作数种类的描述
+const OPERAND_TYPE_NAMES: Map<OperandType, string> = new Map([
+  [OperandType.REGISTER, 'a register'],
+  [OperandType.IMMEDIATE, 'an immediate'],
+  [OperandType.LABEL, 'a label'],
+  [OperandType.ADDRESS, 'a memory address']
+]);
+
+// 助记符建议允许的最大编辑距离
+const MAX_SUGGESTION_DISTANCE = 2;
+
+/**
+ * 按操作数定义检查指令的操作数
+ */
+export function validateOperands(definition: InstructionDefinition, operands: Operand[]): OperandIssue[] {
+  const expected = getSourceOperands(definition.operands).map(operand => ({
+    ...operand,
+    cp0: definition.encoding === 'CP0' && operand.name === 'rd'
+  }));
+  return checkOperands(definition.mnemonic, expected, operands);
+}
+
+/**
+ * 按伪指令的操作数签名检查操作数，没有签名的伪指令不检查
+ * 签名中的内存地址只接受 offset(rs)：展开后的指令不会再次展开
+ */
+export function validatePseudoOperands(pseudo: PseudoInstruction, operands: Operand[]): OperandIssue[] {
+  if (!pseudo.operands) {
+    return [];
+  }
+  const expected = pseudo.operands.map(signature => {
+    const alternatives = ([] as OperandType[]).concat(signature);
+    const accepts = alternatives.flatMap(type => type === OperandType.ADDRESS ? [OperandType.ADDRESS] : ACCEPTED_OPERAND_TYPES.get(type) || [type]);
+    return {
+      name: alternatives.map(type => type.toLowerCase()).join('|'),
+      accepts: [...new Set(accepts)],
+      required: true,
+      alternatives
+    };
+  });
+  return checkOperands(pseudo.mnemonic, expected, operands);
+}
+
+/**
+ * 检查操作数个数和每个操作数的种类
+ */
+function checkOperands(mnemonic: string, expected: SourceOperand[], operands: Operand[]): OperandIssue[] {
+  const required = expected.filter(operand => operand.required).length;
+
+  if (operands.length < required || operands.length > expected.length) {
+    const count = required === expected.length ? `${required}` : `${required} to ${expected.length}`;
+    const signature = expected.length > 0 ? ` (${formatSignature(expected)})` : '';
+    return [{
+      index: operands.length > expected.length ? expected.length : undefined,
+      message: `Wrong number of operands for ${mnemonic}: expected ${count}${signature}, got ${operands.length}`
+    }];
+  }
+
+  const issues: OperandIssue[] = [];
+  operands.forEach((operand, index) => {
+    const { name, accepts, cp0, alternatives } = expected[index];
+    if (!accepts.includes(operand.type)) {
+      const kinds = (alternatives || [accepts[0]]).map(type => OPERAND_TYPE_NAMES.get(type)).join(' or ');
+      issues.push({
+        index,
+        message: `Operand ${index + 1} of ${mnemonic} (${name}) must be ${kinds}, got '${formatOperand(operand)}'`
+      });
+    } else if (operand.cp0 && !cp0) {
+      issues.push({
+        index,
+        message: `Operand ${index + 1} of ${mnemonic} (${name}): CP0 register ${formatOperand(operand)} can only be used as rd of mfc0/mtc0`
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * 在候选助记符中查找与给定名称最接近的一个，没有足够接近的候选时返回undefined
+ */
+export function suggestMnemonic(name: string, candidates: Iterable<string>): string | undefined {
+  const target = name.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Math.min(MAX_SUGGESTION_DISTANCE, Math.floor(target.length / 2)) + 1;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(target, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * 将操作数定义转换为源代码中的书写顺序：offset 后面的 rs 与其合并为 offset(rs)
+ */
+function getSourceOperands(definitions: OperandDefinition[]): SourceOperand[] {
+  const operands: SourceOperand[] = [];
+  for (let i = 0; i < definitions.length; i++) {
+    const definition = definitions[i];
+    if (definition.type === OperandType.OFFSET) {
+      const base = definitions[i + 1];
+      operands.push({
+        name: `${definition.name}(${base ? base.name : 'rs'})`,
+        accepts: ACCEPTED_OPERAND_TYPES.get(OperandType.ADDRESS)!,
+        required: definition.required
+      });
+      i++;
+      continue;
+    }
+    operands.push({
+      name: definition.name,
+      accepts: ACCEPTED_OPERAND_TYPES.get(definition.type) || [definition.type],
+      required: definition.required
+    });
+  }
+  return operands;
+}
+
+/**
+ * 操作数在源代码中的写法（寄存器操作数只记录了寄存器名）
+ */
+function formatOperand(operand: Operand): string {
+  const text = String(operand.value);
+  return operand.type === OperandType.REGISTER && !text.startsWith('$') ? `$${text}` : text;
+}
+
+/**
+ * 格式化操作数列表，可选操作数放在方括号中，如 rt, rd[, sel]
+ */
+function formatSignature(operands: SourceOperand[]): string {
+  return operands
+    .map((operand, index) => {
+      const separator = index > 0 ? ', ' : '';
+      return operand.required ? `${separator}${operand.name}` : `[${separator}${operand.name}]`;
+    })
+    .join('');
+}
+
+/**
+ * 计算两个字符串的编辑距离（Levenshtein距离）
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
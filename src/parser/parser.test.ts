@@ -0,0 +1,63 @@
+import { Parser } from './parser';
+import { Lexer, TokenType } from './lexer';
+
+function parseErrors(source: string) {
+  return new Parser().parse(source).errors.map(({ message, lineNumber, column }) => ({ message, lineNumber, column }));
+}
+
+describe('token columns', () => {
+  it('records the column where each token starts', () => {
+    const { tokens } = new Lexer('  addi $t0, $zero, 0x10 # note').tokenize();
+    const columns = tokens
+      .filter(token => token.type !== TokenType.EOF)
+      .map(token => [token.value, token.column]);
+    expect(columns).toEqual([
+      ['addi', 3],
+      ['$', 8],
+      ['t0', 9],
+      [',', 11],
+      ['$', 13],
+      ['zero', 14],
+      [',', 18],
+      ['0x10', 20],
+      ['# note', 25]
+    ]);
+  });
+
+  it('reports operand errors at the start of the offending token', () => {
+    const errors = parseErrors([
+      '.text',
+      '  adii $t0, $t1, 1',
+      '  mtc0 $t0, $stauts',
+      '  add $t0, $t1, 5',
+      '  addi $t0, $t1, $t2'
+    ].join('\n'));
+
+    expect(errors).toEqual([
+      { message: 'Unknown instruction: adii (did you mean addi?)', lineNumber: 2, column: 3 },
+      { message: 'Unknown register: $stauts (did you mean $status?)', lineNumber: 3, column: 13 },
+      { message: "Operand 3 of add (rt) must be a register, got '5'", lineNumber: 4, column: 17 },
+      { message: "Operand 3 of addi (immediate) must be an immediate, got '$t2'", lineNumber: 5, column: 18 }
+    ]);
+  });
+});
+
+describe('data segment labels', () => {
+  it('allows a label followed by .rept, .align or .org on the same line', () => {
+    const context = new Parser().parse([
+      '.data',
+      'table: .rept 4',
+      '  .word 7',
+      '.endr',
+      'flag: .byte 1',
+      'aligned: .align 2',
+      'value: .word 9',
+      'fixed: .org 0x40',
+      'last: .word 1'
+    ].join('\n'));
+
+    expect(context.errors).toEqual([]);
+    const addresses = Object.fromEntries([...context.globalLabels].map(([name, label]) => [name, label.address]));
+    expect(addresses).toEqual({ table: 0, flag: 16, aligned: 17, value: 20, fixed: 24, last: 0x40 });
+  });
+});
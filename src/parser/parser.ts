@@ -3,20 +3,65 @@
  * 将标记流解析为抽象语法树
  */
 
-import { Token, TokenType, Lexer } from './lexer';
+import { Token, TokenType, Lexer, quoteString } from './lexer';
 import { 
   Instruction, 
   Operand, 
   OperandType, 
   DataDefinition, 
+  DataValue,
+  ExpressionNode,
   Label, 
   Segment, 
   AssemblyContext,
   AssemblyError,
-  REGISTER_NAMES
+  MacroExpansionInfo,
+  SourceLocation,
+  REGISTER_NAMES,
+  CP0_REGISTER_NAMES
 } from '../core/types';
-import { INSTRUCTION_LOOKUP } from '../core/instruction-set';
+import { INSTRUCTION_SET, PseudoInstruction, createPseudoInstructionLookup } from '../core/instruction-set';
+import { InstructionSet, MINISYS_1A_INSTRUCTION_SET } from '../core/isa';
 import { PseudoExpander } from '../expander/pseudo-expander';
+import { MacroExpander } from '../expander/macro-expander';
+import { ExpressionParser, evaluateExpression, getExpressionSymbols, isExpressionStart, mapExpressionSymbols } from './expression';
+import { IncludeResolver, applySourceLocation, DEFAULT_SOURCE_FILE } from './include-resolver';
+import { suggestMnemonic, validateOperands, validatePseudoOperands } from './operand-validator';
+
+// 解析器选项
+export interface ParserOptions {
+  enableDefaultMacros?: boolean; // 预先加载内置宏（delay、save_regs、call等）
+  includePaths?: string[];       // .include 文件的搜索路径
+  defines?: { [name: string]: number }; // 预定义的符号常量（命令行 -D NAME=value）
+  autoAlign?: boolean;           // .word/.half 自动对齐到4/2字节边界
+  relaxedBranches?: number[];    // 需要分支松弛的指令在代码段指令列表中的下标（由汇编器在分支松弛时指定）
+  pseudoInstructions?: PseudoInstruction[]; // 自定义伪指令（已经过检查，由汇编器从伪指令文件加载）
+  instructionSet?: InstructionSet; // 使用的指令集（由汇编器按配置加载并加入注册的指令），默认为 Minisys-1A
+  allowUndefinedSymbols?: boolean; // 不报告未定义的符号（链接时单独解析各部分计算指令数，符号可能定义在其他部分）
+  textStartAddress?: number;     // 代码段起始地址，默认为0（链接时各部分按在内存中的实际位置计算指令数）
+}
+
+// 条件汇编块（.if/.ifdef/.ifndef ... .else ... .endif）
+interface ConditionalBlock {
+  directive: Token;
+  inElse: boolean;
+}
+
+// 数字局部标签引用（1b、1f）
+const LOCAL_LABEL_REF_PATTERN = /^(\d+)([bf])$/;
+
+// .rept 的最大重复次数
+const MAX_REPEAT_COUNT = 65536;
+
+// .align n 允许的最大指数，.balign 允许的最大字节数
+const MAX_ALIGN_EXPONENT = 16;
+const MAX_ALIGN_BYTES = 1 << MAX_ALIGN_EXPONENT;
+
+// 开始条件汇编块的指示
+const CONDITIONAL_OPENERS = new Set([TokenType.DOT_IF, TokenType.DOT_IFDEF, TokenType.DOT_IFNDEF]);
+
+// 宏展开最大嵌套深度，防止递归宏无限展开
+const MAX_MACRO_EXPANSION_DEPTH = 64;
 
 // 解析器类
 export class Parser {
@@ -26,23 +71,41 @@ export class Parser {
   private errors: AssemblyError[] = [];
   private sourceLines: string[] = [];
   private pseudoExpander: PseudoExpander;
+  private macroExpander: MacroExpander;
+  private conditionalStack: ConditionalBlock[] = [];
+  private localLabelCounts: Map<string, number> = new Map();            // 每个数字局部标签已定义的次数
+  private forwardLocalReferences: { name: string; reference: string; token: Token }[] = [];
+  private labelScope: string | null = null;                               // 最近定义的非局部标签，作为 .name 标签的作用域
+  private options: ParserOptions;
 
-  constructor() {
+  constructor(options: ParserOptions = {}) {
+    this.options = options;
     this.context = {
       segments: new Map(),
       globalLabels: new Map(),
+      constants: new Map(),
       currentSegment: 'text',
       programCounter: 0,
+      pseudoInstructions: createPseudoInstructionLookup(options.pseudoInstructions),
+      instructionSet: options.instructionSet ?? MINISYS_1A_INSTRUCTION_SET,
       errors: [],
       warnings: []
     };
     this.pseudoExpander = new PseudoExpander(this.context);
+    this.macroExpander = new MacroExpander();
   }
 
   /**
    * 解析汇编源代码
+   * @param file 源代码所在的文件，用于解析 .include 的相对路径和报告错误位置
+   * @param sourceMap 源代码每一行的原始位置（可选），如链接后的源代码对应的各个原始文件
    */
-  public parse(source: string): AssemblyContext {
+  public parse(source: string, file: string = DEFAULT_SOURCE_FILE, sourceMap?: SourceLocation[]): AssemblyContext {
+    // 展开 .include，之后的行号均指展开后的源代码，报告错误时再映射回原始文件
+    const included = new IncludeResolver(this.options.includePaths).resolve(source, file, sourceMap);
+    source = included.source;
+    this.context.sourceMap = included.sourceMap;
+    
     const lexer = new Lexer(source);
     const { tokens, errors } = lexer.tokenize();
     
@@ -50,7 +113,22 @@ export class Parser {
     this.position = 0;
     this.sourceLines = source.split(/\r?\n/);
     this.errors = [...errors];
-    this.context.errors = [...errors];
+    this.context.errors = [...included.errors];
+    
+    // 预定义的符号常量
+    for (const [name, value] of Object.entries(this.options.defines ?? {})) {
+      this.context.constants.set(name, { name, value, lineNumber: 0, reassignable: false });
+    }
+    this.conditionalStack = [];
+    this.localLabelCounts = new Map();
+    this.forwardLocalReferences = [];
+    this.labelScope = null;
+    
+    // 初始化宏表
+    this.macroExpander = new MacroExpander();
+    if (this.options.enableDefaultMacros) {
+      this.macroExpander.initializeDefaultMacros();
+    }
     
     // 初始化默认段
     this.initializeDefaultSegments();
@@ -58,7 +136,25 @@ export class Parser {
     // 解析程序
     this.parseProgram();
     
-    this.context.errors = [...this.context.errors, ...this.errors];
+    for (const { name, reference, token } of this.forwardLocalReferences) {
+      if (!this.context.globalLabels.has(name)) {
+        this.addErrorAt(token, `Undefined local label: ${reference} (no following definition of ${reference.slice(0, -1)}:)`);
+      }
+    }
+    
+    if (!this.options.allowUndefinedSymbols) {
+      this.checkUndefinedSymbols();
+    }
+    
+    for (const block of this.conditionalStack) {
+      this.addErrorAt(block.directive, `${block.directive.value} without matching .endif`);
+    }
+    
+    this.context.errors = [
+      ...this.context.errors,
+      ...this.errors.map(error => applySourceLocation(error, included.sourceMap))
+    ];
+    this.context.warnings = this.context.warnings.map(warning => applySourceLocation(warning, included.sourceMap));
     return this.context;
   }
 
@@ -68,7 +164,7 @@ export class Parser {
   private initializeDefaultSegments(): void {
     const textSegment: Segment = {
       name: 'text',
-      startAddress: 0x00000000,
+      startAddress: this.options.textStartAddress ?? 0x00000000,
       size: 0,
       instructions: [],
       data: [],
@@ -86,6 +182,7 @@ export class Parser {
     
     this.context.segments.set('text', textSegment);
     this.context.segments.set('data', dataSegment);
+    this.context.programCounter = textSegment.startAddress;
   }
 
   /**
@@ -97,6 +194,10 @@ export class Parser {
         this.parseDataSegment();
       } else if (this.match(TokenType.TEXT)) {
         this.parseTextSegment();
+      } else if (this.isControlDirective()) {
+        this.parseControlDirective();
+      } else if (this.isNumericLabel()) {
+        this.parseNumericLabel();
       } else if (this.match(TokenType.IDENTIFIER)) {
         this.parseLabelOrInstruction();
       } else if (this.match(TokenType.COMMENT)) {
@@ -132,10 +233,15 @@ export class Parser {
     
     // 解析数据定义
     while (!this.isAtEnd() && !this.match(TokenType.TEXT)) {
-      if (this.match(TokenType.IDENTIFIER)) {
+      if (this.isControlDirective()) {
+        this.parseControlDirective();
+      } else if (this.isMacroInvocation()) {
+        this.expandMacroInvocation(this.advance());
+      } else if (this.match(TokenType.IDENTIFIER) || this.isNumericLabel()) {
         this.parseDataDefinition();
       } else if (this.match(TokenType.DOT_BYTE) || this.match(TokenType.DOT_WORD) || 
                  this.match(TokenType.DOT_HALF) || this.match(TokenType.DOT_ASCII) || 
+                 this.match(TokenType.DOT_ASCIIZ) || 
                  this.match(TokenType.DOT_SPACE)) {
         this.parseDataDefinitionWithoutLabel();
       } else if (this.match(TokenType.COMMENT)) {
@@ -150,73 +256,818 @@ export class Parser {
   }
 
   /**
-   * 解析文本段
+   * 解析文本段
+   */
+  private parseTextSegment(): void {
+    this.context.currentSegment = 'text';
+    // 切换到text段时，重置programCounter为text段的起始地址（通常是0）
+    // 这样.data段的数据定义不会影响.text段的标签地址
+    const textSegment = this.context.segments.get('text')!;
+    this.context.programCounter = textSegment.startAddress;
+    this.advance(); // 跳过 .text
+    this.consume(TokenType.NEWLINE, 'Expected newline after .text directive');
+    
+    // 解析指令和标签
+    while (!this.isAtEnd()) {
+      if (this.isControlDirective()) {
+        this.parseControlDirective();
+      } else if (this.isNumericLabel()) {
+        this.parseNumericLabel();
+      } else if (this.match(TokenType.IDENTIFIER)) {
+        this.parseLabelOrInstruction();
+      } else if (this.match(TokenType.COMMENT)) {
+        this.advance();
+      } else if (this.match(TokenType.NEWLINE)) {
+        this.advance();
+      } else {
+        this.addError(`Unexpected token in text segment: ${this.peek().value}`);
+        this.advance();
+      }
+    }
+  }
+
+  /**
+   * 解析标签或指令
+   */
+  private parseLabelOrInstruction(): void {
+    const identifier = this.advance();
+    
+    if (this.match(TokenType.COLON)) {
+      // 这是一个标签
+      this.advance(); // 跳过冒号
+      this.parseLabel(this.defineScopedLabel(identifier), identifier);
+    } else if (this.macroExpander.hasMacro(identifier.value)) {
+      // 这是一个宏调用
+      this.expandMacroInvocation(identifier);
+    } else {
+      // 这是一个指令
+      this.parseInstruction(identifier.value);
+    }
+  }
+
+  /**
+   * 检查当前标记是否为段内通用的控制指令
+   */
+  private isControlDirective(): boolean {
+    return this.match(TokenType.DOT_MACRO) ||
+           this.match(TokenType.DOT_ENDM) ||
+           this.match(TokenType.DOT_DEFAULT_MACROS) ||
+           this.match(TokenType.DOT_EQU) ||
+           this.match(TokenType.DOT_SET) ||
+           this.match(TokenType.DOT_EQV) ||
+           CONDITIONAL_OPENERS.has(this.peek().type) ||
+           this.match(TokenType.DOT_ELSE) ||
+           this.match(TokenType.DOT_ENDIF) ||
+           this.match(TokenType.DOT_REPT) ||
+           this.match(TokenType.DOT_IRP) ||
+           this.match(TokenType.DOT_ENDR) ||
+           this.match(TokenType.DOT_ALIGN) ||
+           this.match(TokenType.DOT_BALIGN) ||
+           this.match(TokenType.DOT_ORG);
+  }
+
+  /**
+   * 解析控制指令
+   */
+  private parseControlDirective(): void {
+    const directive = this.advance();
+    
+    switch (directive.type) {
+      case TokenType.DOT_MACRO:
+        this.parseMacroDefinition(directive);
+        return;
+      case TokenType.DOT_ENDM:
+        this.addErrorAt(directive, '.endm without matching .macro');
+        break;
+      case TokenType.DOT_DEFAULT_MACROS:
+        this.macroExpander.initializeDefaultMacros();
+        break;
+      case TokenType.DOT_EQU:
+      case TokenType.DOT_SET:
+      case TokenType.DOT_EQV:
+        this.parseConstantDefinition(directive);
+        break;
+      case TokenType.DOT_IF:
+      case TokenType.DOT_IFDEF:
+      case TokenType.DOT_IFNDEF:
+        this.parseConditional(directive);
+        return;
+      case TokenType.DOT_ELSE:
+        this.parseElse(directive);
+        return;
+      case TokenType.DOT_ALIGN:
+      case TokenType.DOT_BALIGN:
+        this.parseAlign(directive);
+        break;
+      case TokenType.DOT_ORG:
+        this.parseOrg(directive);
+        break;
+      case TokenType.DOT_REPT:
+        this.parseRepeat(directive);
+        return;
+      case TokenType.DOT_IRP:
+        this.parseIrp(directive);
+        return;
+      case TokenType.DOT_ENDR:
+        this.addErrorAt(directive, '.endr without matching .rept or .irp');
+        break;
+      case TokenType.DOT_ENDIF:
+        if (this.conditionalStack.length === 0) {
+          this.addErrorAt(directive, '.endif without matching .if');
+        } else {
+          this.conditionalStack.pop();
+        }
+        break;
+    }
+    
+    this.skipToEndOfLine();
+  }
+
+  /**
+   * 解析条件汇编指示
+   * .if expr / .ifdef NAME / .ifndef NAME
+   * 条件不成立时跳过对应的标记，直到匹配的 .else 或 .endif
+   */
+  private parseConditional(directive: Token): void {
+    const condition = this.evaluateCondition(directive);
+    this.skipToEndOfLine();
+    
+    const block: ConditionalBlock = { directive, inElse: false };
+    this.conditionalStack.push(block);
+    if (condition) {
+      return;
+    }
+    
+    const end = this.skipConditionalBlock(block);
+    if (end === TokenType.DOT_ELSE) {
+      block.inElse = true;
+    } else if (end === TokenType.DOT_ENDIF) {
+      this.conditionalStack.pop();
+    }
+  }
+
+  /**
+   * 解析 .else：执行到这里说明前一个分支已汇编，跳过 .else 分支
+   */
+  private parseElse(directive: Token): void {
+    const block = this.conditionalStack[this.conditionalStack.length - 1];
+    if (!block) {
+      this.addErrorAt(directive, '.else without matching .if');
+      this.skipToEndOfLine();
+      return;
+    }
+    if (block.inElse) {
+      this.addErrorAt(directive, `Duplicate .else for ${block.directive.value} at ${this.formatLine(block.directive.line)}`);
+    }
+    
+    this.skipToEndOfLine();
+    block.inElse = true;
+    if (this.skipConditionalBlock(block) === TokenType.DOT_ENDIF) {
+      this.conditionalStack.pop();
+    }
+  }
+
+  /**
+   * 解析对齐指示
+   * .align n  对齐到 2^n 字节边界
+   * .balign n 对齐到 n 字节边界（n 为2的幂）
+   */
+  private parseAlign(directive: Token): void {
+    const value = this.parseDirectiveConstant(directive);
+    if (value === undefined) {
+      return;
+    }
+    
+    let alignment: number;
+    if (directive.type === TokenType.DOT_ALIGN) {
+      if (value < 0 || value > MAX_ALIGN_EXPONENT) {
+        this.addErrorAt(directive, `.align exponent out of range (0..${MAX_ALIGN_EXPONENT}): ${value}`);
+        return;
+      }
+      alignment = 1 << value;
+    } else {
+      if (value <= 0 || value > MAX_ALIGN_BYTES || (value & (value - 1)) !== 0) {
+        this.addErrorAt(directive, `.balign requires a power of two between 1 and ${MAX_ALIGN_BYTES}: ${value}`);
+        return;
+      }
+      alignment = value;
+    }
+    
+    this.alignProgramCounter(alignment);
+  }
+
+  /**
+   * 解析 .org addr：将当前段的位置计数器移动到指定的绝对地址（只能向后移动）
+   */
+  private parseOrg(directive: Token): void {
+    const address = this.parseDirectiveConstant(directive);
+    if (address === undefined) {
+      return;
+    }
+    
+    if (address < this.context.programCounter) {
+      const current = this.context.programCounter.toString(16).toUpperCase();
+      this.addErrorAt(directive, `.org cannot move location counter backwards (current 0x${current}, target 0x${address.toString(16).toUpperCase()})`);
+      return;
+    }
+    if (this.context.currentSegment === 'text' && address % 4 !== 0) {
+      this.addErrorAt(directive, `.org address in text segment must be word aligned: 0x${address.toString(16).toUpperCase()}`);
+      return;
+    }
+    
+    this.context.programCounter = address;
+  }
+
+  /**
+   * 将位置计数器对齐到指定边界
+   * 代码段中的指令始终按字对齐，填充部分在编码阶段补 nop，数据段补 0
+   */
+  private alignProgramCounter(alignment: number): void {
+    if (this.context.currentSegment === 'text') {
+      alignment = Math.max(alignment, 4);
+    }
+    const remainder = this.context.programCounter % alignment;
+    if (remainder !== 0) {
+      this.context.programCounter += alignment - remainder;
+    }
+  }
+
+  /**
+   * 解析指示的常量参数，失败时报错并返回undefined
+   */
+  private parseDirectiveConstant(directive: Token): number | undefined {
+    if (!this.isAtExpression()) {
+      this.addError(`Expected value after ${directive.value}`);
+      return undefined;
+    }
+    const expression = this.parseExpression();
+    if (!expression) {
+      return undefined;
+    }
+    const value = this.evaluateConstant(expression);
+    if (value === undefined) {
+      this.addErrorAt(directive, `${directive.value} argument must be a constant expression`);
+    }
+    return value;
+  }
+
+  /**
+   * 解析 .rept count ... .endr
+   * 将重复体的标记复制 count 次插入标记流，复制的标记保留原来的行号
+   */
+  private parseRepeat(directive: Token): void {
+    let count = this.parseDirectiveConstant(directive);
+    if (count !== undefined && (count < 0 || count > MAX_REPEAT_COUNT)) {
+      this.addErrorAt(directive, `.rept count out of range (0..${MAX_REPEAT_COUNT}): ${count}`);
+      count = undefined;
+    }
+    this.skipToEndOfLine();
+    
+    const body = this.takeRepeatBody(directive);
+    if (body && count !== undefined) {
+      const expanded: Token[] = [];
+      for (let i = 0; i < count; i++) {
+        expanded.push(...body.map(token => ({ ...token })));
+      }
+      this.insertTokens(expanded);
+    }
+  }
+
+  /**
+   * 解析 .irp sym, a, b, c ... .endr
+   * 对每个值复制一次重复体，并将其中的 sym 替换为该值
+   */
+  private parseIrp(directive: Token): void {
+    if (!this.match(TokenType.IDENTIFIER)) {
+      this.addError('Expected symbol name after .irp');
+      this.skipToEndOfLine();
+      this.takeRepeatBody(directive);
+      return;
+    }
+    const symbol = this.advance().value;
+    
+    // 收集值：按逗号分割，每个值可以由多个标记组成（如 $t0）
+    const values: Token[][] = [];
+    while (!this.isAtLineEnd()) {
+      if (this.match(TokenType.COMMA)) {
+        this.advance();
+        continue;
+      }
+      const value: Token[] = [];
+      while (!this.isAtLineEnd() && !this.match(TokenType.COMMA)) {
+        value.push(this.advance());
+      }
+      values.push(value);
+    }
+    this.skipToEndOfLine();
+    
+    const body = this.takeRepeatBody(directive);
+    if (!body) {
+      return;
+    }
+    
+    const expanded: Token[] = [];
+    for (const value of values) {
+      for (const token of body) {
+        if (token.type === TokenType.IDENTIFIER && token.value === symbol) {
+          expanded.push(...value.map(v => ({ ...v, line: token.line, column: token.column, expansion: token.expansion })));
+        } else {
+          expanded.push({ ...token });
+        }
+      }
+    }
+    this.insertTokens(expanded);
+  }
+
+  /**
+   * 取出重复体的标记（直到匹配的 .endr，支持嵌套），并从标记流中移除
+   * 缺少 .endr 时报错并返回null
+   */
+  private takeRepeatBody(directive: Token): Token[] | null {
+    const start = this.position;
+    let depth = 0;
+    
+    while (!this.isAtEnd()) {
+      const token = this.advance();
+      if (token.type === TokenType.DOT_REPT || token.type === TokenType.DOT_IRP) {
+        depth++;
+      } else if (token.type === TokenType.DOT_ENDR) {
+        if (depth === 0) {
+          const body = this.tokens.slice(start, this.position - 1);
+          this.skipToEndOfLine();
+          this.tokens.splice(start, this.position - start);
+          this.position = start;
+          return body;
+        }
+        depth--;
+      }
+    }
+    
+    this.addErrorAt(directive, `Unterminated ${directive.value} block (missing .endr)`);
+    return null;
+  }
+
+  /**
+   * 在当前位置插入标记（展开结果可能很大，避免使用 splice 的参数展开）
+   */
+  private insertTokens(tokens: Token[]): void {
+    this.tokens = [
+      ...this.tokens.slice(0, this.position),
+      ...tokens,
+      ...this.tokens.slice(this.position)
+    ];
+  }
+
+  /**
+   * 计算条件汇编指示的条件
+   */
+  private evaluateCondition(directive: Token): boolean {
+    if (directive.type !== TokenType.DOT_IF) {
+      if (!this.match(TokenType.IDENTIFIER)) {
+        this.addError(`Expected symbol name after ${directive.value}`);
+        return false;
+      }
+      const name = this.advance().value;
+      const defined = this.context.constants.has(name) || this.context.globalLabels.has(name);
+      return directive.type === TokenType.DOT_IFDEF ? defined : !defined;
+    }
+    
+    if (!this.isAtExpression()) {
+      this.addError('Expected expression after .if');
+      return false;
+    }
+    const expression = this.parseExpression();
+    if (!expression) {
+      return false;
+    }
+    
+    // 条件只能引用符号常量，保证各次解析（如链接时计算指令数）结果一致
+    try {
+      return evaluateExpression(expression, name => this.context.constants.get(name)?.value) !== 0;
+    } catch (error) {
+      this.addErrorAt(directive, `Cannot evaluate .if condition: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * 跳过条件不成立的分支，返回结束该分支的指示（.else、.endif，到达文件末尾时返回EOF）
+   * 嵌套的条件块整体跳过；.else 分支中再遇到 .else 时报错并继续跳过
+   */
+  private skipConditionalBlock(block: ConditionalBlock): TokenType {
+    let depth = 0;
+    
+    while (!this.isAtEnd()) {
+      const token = this.advance();
+      
+      if (CONDITIONAL_OPENERS.has(token.type)) {
+        depth++;
+      } else if (token.type === TokenType.DOT_ENDIF) {
+        if (depth === 0) {
+          this.skipToEndOfLine();
+          return TokenType.DOT_ENDIF;
+        }
+        depth--;
+      } else if (token.type === TokenType.DOT_ELSE && depth === 0) {
+        if (!block.inElse) {
+          this.skipToEndOfLine();
+          return TokenType.DOT_ELSE;
+        }
+        this.addErrorAt(token, `Duplicate .else for ${block.directive.value} at ${this.formatLine(block.directive.line)}`);
+      }
+    }
+    
+    return TokenType.EOF;
+  }
+
+  /**
+   * 解析宏定义
+   * .macro name [param1, param2, ...]
+   *   ...
+   * .endm
+   */
+  private parseMacroDefinition(directive: Token): void {
+    if (directive.expansion) {
+      this.addErrorAt(directive, 'Macro definitions inside macro expansions are not supported');
+    }
+    
+    if (!this.match(TokenType.IDENTIFIER)) {
+      this.addError('Expected macro name after .macro');
+      this.skipToEndOfLine();
+      return;
+    }
+    const nameToken = this.advance();
+    
+    // 解析参数列表
+    const parameters: string[] = [];
+    while (!this.isAtLineEnd()) {
+      if (this.match(TokenType.COMMA)) {
+        this.advance();
+        continue;
+      }
+      if (this.match(TokenType.IDENTIFIER) || this.match(TokenType.REGISTER)) {
+        parameters.push(this.advance().value);
+      } else {
+        this.addError(`Invalid macro parameter: ${this.peek().value}`);
+        this.advance();
+      }
+    }
+    this.skipToEndOfLine();
+    
+    // 收集宏体，直到匹配的 .endm（支持嵌套定义的计数）
+    const bodyStartLine = directive.line + 1;
+    let depth = 0;
+    let endToken: Token | null = null;
+    while (!this.isAtEnd()) {
+      const token = this.advance();
+      if (token.type === TokenType.DOT_MACRO) {
+        depth++;
+      } else if (token.type === TokenType.DOT_ENDM) {
+        if (depth === 0) {
+          endToken = token;
+          break;
+        }
+        depth--;
+      }
+    }
+    
+    if (!endToken) {
+      this.addErrorAt(directive, `Unterminated macro definition: ${nameToken.value} (missing .endm)`);
+      return;
+    }
+    this.skipToEndOfLine();
+    
+    const body = this.sourceLines.slice(bodyStartLine - 1, endToken.line - 1);
+    this.macroExpander.defineMacro(nameToken.value, parameters, body, directive.line);
+  }
+
+  /**
+   * 解析符号常量定义
+   * .equ/.eqv NAME, expr  不允许重新定义
+   * .set NAME, expr       允许重新赋值
+   */
+  private parseConstantDefinition(directive: Token): void {
+    if (!this.match(TokenType.IDENTIFIER)) {
+      this.addError(`Expected symbol name after ${directive.value}`);
+      return;
+    }
+    const nameToken = this.advance();
+    const name = nameToken.value;
+    
+    if (this.match(TokenType.COMMA)) {
+      this.advance();
+    }
+    
+    if (!this.isAtExpression()) {
+      this.addError(`Expected value for ${name} after ${directive.value}`);
+      return;
+    }
+    const expression = this.parseExpression();
+    if (!expression) {
+      return;
+    }
+    
+    // 常量的值在解析阶段确定，只能引用已定义的常量和标签
+    let value: number;
+    try {
+      value = evaluateExpression(expression, symbol => this.lookupDefinedSymbol(symbol));
+    } catch (error) {
+      this.addErrorAt(nameToken, `Cannot evaluate ${name}: ${error.message}`);
+      return;
+    }
+    
+    const reassignable = directive.type === TokenType.DOT_SET;
+    const existing = this.context.constants.get(name);
+    if (existing && !(existing.reassignable && reassignable)) {
+      const where = existing.lineNumber > 0 ? this.formatLine(existing.lineNumber) : 'command line (-D)';
+      this.addErrorAt(nameToken, `Symbol ${name} already defined at ${where}`);
+      return;
+    }
+    const label = this.context.globalLabels.get(name);
+    if (label) {
+      this.addErrorAt(nameToken, `Symbol ${name} already defined as a label at ${this.formatLine(label.lineNumber)}`);
+      return;
+    }
+    
+    this.context.constants.set(name, {
+      name,
+      value,
+      lineNumber: nameToken.line,
+      reassignable
+    });
+  }
+
+  /**
+   * 检查指令操作数和数据定义中引用的所有符号，一次报告全部未定义的符号
+   * 每个符号在第一次引用处报告一次，并列出其他引用位置
+   */
+  private checkUndefinedSymbols(): void {
+    const references = new Map<string, { lineNumber: number; macro?: MacroExpansionInfo }[]>();
+    const addReferences = (symbols: string[], lineNumber: number, macro?: MacroExpansionInfo) => {
+      for (const name of symbols) {
+        // 以点号开头的是数字局部标签和缺少作用域的局部标签，已在解析时报告
+        if (name.startsWith('.') || this.lookupDefinedSymbol(name) !== undefined) {
+          continue;
+        }
+        const list = references.get(name) || [];
+        if (!list.some(reference => reference.lineNumber === lineNumber)) {
+          list.push({ lineNumber, macro });
+        }
+        references.set(name, list);
+      }
+    };
+    
+    for (const segment of this.context.segments.values()) {
+      for (const instruction of segment.instructions) {
+        for (const operand of instruction.operands) {
+          const symbols = operand.expression
+            ? getExpressionSymbols(operand.expression)
+            : operand.label ? [operand.label] : [];
+          addReferences(symbols, instruction.lineNumber, instruction.macro);
+        }
+      }
+      for (const dataDef of segment.data) {
+        for (const value of dataDef.values) {
+          if (typeof value === 'object') {
+            addReferences(getExpressionSymbols(value), dataDef.lineNumber ?? 0, dataDef.macro);
+          }
+        }
+      }
+    }
+    
+    for (const [name, [first, ...others]] of references) {
+      const also = others.length > 0
+        ? ` (also referenced at ${others.map(reference => this.formatLine(reference.lineNumber)).join(', ')})`
+        : '';
+      this.addErrorAtLine(first.lineNumber, `Undefined symbol: ${name}${also}`, 'SEMANTIC', first.macro);
+    }
+  }
+
+  /**
+   * 查找解析到当前位置为止已定义的符号：符号常量优先，其次是标签地址
+   */
+  private lookupDefinedSymbol(name: string): number | undefined {
+    return this.context.constants.get(name)?.value ?? this.context.globalLabels.get(name)?.address;
+  }
+
+  /**
+   * 检查当前标记是否为宏调用（而不是标签定义）
+   */
+  private isMacroInvocation(): boolean {
+    if (!this.match(TokenType.IDENTIFIER) || !this.macroExpander.hasMacro(this.peek().value)) {
+      return false;
+    }
+    const next = this.tokens[this.position + 1];
+    return !next || next.type !== TokenType.COLON;
+  }
+
+  /**
+   * 展开宏调用，将展开后的标记插入到当前位置
+   */
+  private expandMacroInvocation(nameToken: Token): void {
+    const macro = this.macroExpander.getMacro(nameToken.value)!;
+    
+    // 收集实参：按顶层逗号分割，保留每个实参的原始文本
+    const args: string[] = [];
+    let current = '';
+    let parenDepth = 0;
+    while (!this.isAtLineEnd()) {
+      const token = this.advance();
+      if (token.type === TokenType.COMMA && parenDepth === 0) {
+        args.push(current);
+        current = '';
+        continue;
+      }
+      if (token.type === TokenType.LPAREN) {
+        parenDepth++;
+      } else if (token.type === TokenType.RPAREN) {
+        parenDepth = Math.max(0, parenDepth - 1);
+      }
+      current += token.type === TokenType.STRING ? quoteString(token.value) : token.value;
+    }
+    if (current || args.length > 0) {
+      args.push(current);
+    }
+    this.skipToEndOfLine();
+    
+    if (args.length !== macro.parameters.length) {
+      this.addErrorAt(nameToken, `Macro ${macro.name} expects ${macro.parameters.length} argument(s), got ${args.length}`);
+      return;
+    }
+    
+    const depth = (nameToken.expansionDepth || 0) + 1;
+    if (depth > MAX_MACRO_EXPANSION_DEPTH) {
+      this.addErrorAt(nameToken, `Macro expansion too deep (recursive macro?): ${macro.name}`);
+      return;
+    }
+    
+    const expandedLines = this.macroExpander.expandMacro(macro.name, args);
+    const { tokens, errors } = new Lexer(expandedLines.join('\n') + '\n').tokenize();
+    
+    // 宏体行号：用户定义的宏映射到定义处的源代码行，内置宏使用宏体内的相对行号
+    const bodyLineOf = (expandedLine: number): number =>
+      macro.lineNumber !== undefined ? macro.lineNumber + expandedLine : expandedLine;
+    
+    for (const error of errors) {
+      this.errors.push({
+        ...error,
+        lineNumber: nameToken.line,
+        sourceLine: this.sourceLines[nameToken.line - 1] ?? '',
+        macro: { macroName: macro.name, lineNumber: bodyLineOf(error.lineNumber) }
+      });
+    }
+    
+    const expandedTokens = tokens
+      .filter(token => token.type !== TokenType.EOF)
+      .map(token => ({
+        ...token,
+        line: nameToken.line,
+        expansion: { macroName: macro.name, lineNumber: bodyLineOf(token.line) },
+        expansionDepth: depth
+      }));
+    
+    this.insertTokens(expandedTokens);
+  }
+
+  /**
+   * 解析标签
+   */
+  private parseLabel(name: string, nameToken: Token): void {
+    if (name.includes('\\@')) {
+      this.addError(`\\@ is only valid inside a macro body: ${name}`);
+    }
+    
+    const label: Label = {
+      name,
+      address: this.context.programCounter,
+      lineNumber: nameToken.line,
+      isGlobal: false
+    };
+    
+    this.defineLabel(label, this.context.segments.get(this.context.currentSegment)!, nameToken);
+  }
+
+  /**
+   * 将标签加入所在段和全局标签表
+   * 与已有标签或符号常量重名时报告错误（指出第一次定义的位置），并保留第一次定义
+   */
+  private defineLabel(label: Label, segment: Segment, nameToken: Token): void {
+    const existing = this.context.globalLabels.get(label.name);
+    if (existing) {
+      this.addErrorAt(nameToken, `Duplicate label: ${label.name} (first defined at ${this.formatLine(existing.lineNumber)})`, 'SEMANTIC');
+      return;
+    }
+    const constant = this.context.constants.get(label.name);
+    if (constant) {
+      const where = constant.lineNumber > 0 ? this.formatLine(constant.lineNumber) : 'command line (-D)';
+      this.addErrorAt(nameToken, `Label ${label.name} already defined as a symbol at ${where}`, 'SEMANTIC');
+      return;
+    }
+    
+    segment.labels.set(label.name, label);
+    this.context.globalLabels.set(label.name, label);
+  }
+
+  /**
+   * 检查当前标记是否为数字局部标签定义（如 1:）
+   */
+  private isNumericLabel(): boolean {
+    return this.match(TokenType.NUMBER) && this.peekNext().type === TokenType.COLON;
+  }
+
+  /**
+   * 解析数字局部标签定义
+   */
+  private parseNumericLabel(): void {
+    const numberToken = this.advance();
+    this.advance(); // 跳过冒号
+    this.parseLabel(this.defineLocalLabel(numberToken.value), numberToken);
+  }
+
+  /**
+   * 定义数字局部标签的一个新实例，返回其内部名称
+   * 同一数字可以重复定义，每次定义都是一个新实例
+   */
+  private defineLocalLabel(number: string): string {
+    const key = String(parseInt(number, 10));
+    const instance = (this.localLabelCounts.get(key) || 0) + 1;
+    this.localLabelCounts.set(key, instance);
+    return this.localLabelName(key, instance);
+  }
+
+  /**
+   * 数字局部标签实例的内部名称（以点号开头，不会与用户标签冲突）
    */
-  private parseTextSegment(): void {
-    this.context.currentSegment = 'text';
-    // 切换到text段时，重置programCounter为text段的起始地址（通常是0）
-    // 这样.data段的数据定义不会影响.text段的标签地址
-    const textSegment = this.context.segments.get('text')!;
-    this.context.programCounter = textSegment.startAddress;
-    this.advance(); // 跳过 .text
-    this.consume(TokenType.NEWLINE, 'Expected newline after .text directive');
-    
-    // 解析指令和标签
-    while (!this.isAtEnd()) {
-      if (this.match(TokenType.IDENTIFIER)) {
-        this.parseLabelOrInstruction();
-      } else if (this.match(TokenType.COMMENT)) {
-        this.advance();
-      } else if (this.match(TokenType.NEWLINE)) {
-        this.advance();
-      } else {
-        this.addError(`Unexpected token in text segment: ${this.peek().value}`);
-        this.advance();
-      }
+  private localLabelName(number: string, instance: number): string {
+    return `.L${number}_${instance}`;
+  }
+
+  /**
+   * 定义标签时确定其名称：.name 形式的局部标签限定到当前作用域（如 interruptServer0.loop），
+   * 其他标签成为新的作用域
+   */
+  private defineScopedLabel(nameToken: Token): string {
+    const name = nameToken.value;
+    if (name.startsWith('.')) {
+      return this.qualifyScopedLabel(name, nameToken);
     }
+    this.labelScope = name;
+    return name;
   }
 
   /**
-   * 解析标签或指令
+   * 将 .name 形式的局部标签限定到当前作用域
    */
-  private parseLabelOrInstruction(): void {
-    const identifier = this.advance();
-    
-    if (this.match(TokenType.COLON)) {
-      // 这是一个标签
-      this.advance(); // 跳过冒号
-      this.parseLabel(identifier.value);
-    } else {
-      // 这是一个指令
-      this.parseInstruction(identifier.value);
+  private qualifyScopedLabel(name: string, token: Token): string {
+    if (!this.labelScope) {
+      this.addErrorAt(token, `Local label ${name} must follow a non-local label`);
+      return name;
     }
+    return this.labelScope + name;
   }
 
   /**
-   * 解析标签
+   * 将表达式中的局部标签引用替换为实际名称：
+   * .name 限定到当前作用域，1b/1f 替换为对应数字标签实例的内部名称
    */
-  private parseLabel(name: string): void {
-    const label: Label = {
-      name,
-      address: this.context.programCounter,
-      lineNumber: this.peek().line,
-      isGlobal: false
-    };
-    
-    const currentSegment = this.context.segments.get(this.context.currentSegment)!;
-    currentSegment.labels.set(name, label);
-    this.context.globalLabels.set(name, label);
+  private resolveLocalLabelReferences(expression: ExpressionNode, token: Token): ExpressionNode {
+    return mapExpressionSymbols(expression, name => {
+      if (name.startsWith('.')) {
+        return this.qualifyScopedLabel(name, token);
+      }
+      
+      const match = name.match(LOCAL_LABEL_REF_PATTERN);
+      if (!match) {
+        return name;
+      }
+      
+      const key = String(parseInt(match[1], 10));
+      const count = this.localLabelCounts.get(key) || 0;
+      if (match[2] === 'b') {
+        if (count === 0) {
+          this.addErrorAt(token, `Undefined local label: ${name} (no preceding definition of ${match[1]}:)`);
+        }
+        return this.localLabelName(key, count);
+      }
+      
+      const resolved = this.localLabelName(key, count + 1);
+      this.forwardLocalReferences.push({ name: resolved, reference: name, token });
+      return resolved;
+    });
   }
 
   /**
    * 解析指令
    */
   private parseInstruction(mnemonic: string): void {
+    const mnemonicToken = this.tokens[this.position - 1];
     const operands: Operand[] = [];
+    const operandTokens: Token[] = [];
+    const errorCount = this.errors.length;
     
     // 特殊处理内存访问指令
     if (this.isMemoryAccessInstruction(mnemonic)) {
-      this.parseMemoryAccessInstruction(mnemonic, operands);
+      this.parseMemoryAccessInstruction(mnemonic, operands, operandTokens);
     } else {
       // 解析操作数
       while (!this.match(TokenType.NEWLINE) && !this.match(TokenType.COMMENT) && !this.isAtEnd()) {
@@ -225,13 +1076,20 @@ export class Parser {
           continue;
         }
         
+        const operandToken = this.peek();
         const operand = this.parseOperand();
         if (operand) {
           operands.push(operand);
+          operandTokens.push(operandToken);
         }
       }
     }
     
+    // 操作数本身有语法错误时不再检查操作数个数和种类，避免重复报错
+    if (this.errors.length === errorCount) {
+      this.validateInstruction(mnemonic, mnemonicToken, operands, operandTokens);
+    }
+    
     // 创建指令
     const instruction: Instruction = {
       mnemonic,
@@ -240,17 +1098,27 @@ export class Parser {
       opcode: 0,
       lineNumber: this.peek().line,
       sourceLine: this.getCurrentLine(),
-      address: this.context.programCounter // 设置指令地址
+      address: this.context.programCounter, // 设置指令地址
+      macro: mnemonicToken?.expansion
     };
     
     // 添加到当前段
     const currentSegment = this.context.segments.get(this.context.currentSegment)!;
+    if (this.options.relaxedBranches?.includes(currentSegment.instructions.length)) {
+      instruction.relaxed = true;
+    }
     currentSegment.instructions.push(instruction);
     
     // 更新程序计数器：需要考虑伪指令展开
     // 伪指令（如push、pop）会展开为多条真实指令，需要计算展开后的指令数
-    const expanded = this.pseudoExpander.expandPseudoInstruction(instruction);
-    this.context.programCounter += expanded.length * 4;
+    // 无法展开的伪指令（如 ulw 的目标寄存器与基址寄存器相同）在此报告错误
+    try {
+      const expanded = this.pseudoExpander.expandPseudoInstruction(instruction);
+      this.context.programCounter += expanded.length * 4;
+    } catch (error) {
+      this.addErrorAt(mnemonicToken, error.message);
+      this.context.programCounter += 4;
+    }
     
     // 跳过换行符
     if (this.match(TokenType.NEWLINE)) {
@@ -269,10 +1137,11 @@ export class Parser {
   /**
    * 解析内存访问指令
    */
-  private parseMemoryAccessInstruction(mnemonic: string, operands: Operand[]): void {
+  private parseMemoryAccessInstruction(mnemonic: string, operands: Operand[], operandTokens: Token[]): void {
     // 内存访问指令格式: rt, offset(rs)
     // 解析第一个操作数 (rt)
     if (this.match(TokenType.DOLLAR)) {
+      operandTokens.push(this.peek());
       const rt = this.parseRegister();
       operands.push(rt);
     } else {
@@ -286,9 +1155,46 @@ export class Parser {
     }
     
     // 解析第二个操作数 (offset(rs))
-    const address = this.parseMemoryAddress();
+    const addressToken = this.peek();
+    const address = this.parseOperand();
     if (address) {
       operands.push(address);
+      operandTokens.push(addressToken);
+    }
+  }
+
+  /**
+   * 检查助记符是否存在，并按指令集中的操作数定义检查操作数个数和种类
+   */
+  private validateInstruction(mnemonic: string, mnemonicToken: Token, operands: Operand[], operandTokens: Token[]): void {
+    const instructionSet = this.context.instructionSet!;
+    const definition = instructionSet.instructions.get(mnemonic);
+    const pseudoInstructions = this.context.pseudoInstructions!;
+    const pseudo = pseudoInstructions.get(mnemonic);
+    if (!definition && !pseudo) {
+      if (INSTRUCTION_SET.some(instruction => instruction.mnemonic === mnemonic)) {
+        this.addErrorAt(mnemonicToken, `Instruction ${mnemonic} is not available in ${instructionSet.name}`);
+        return;
+      }
+      const suggestion = suggestMnemonic(mnemonic, [...instructionSet.instructions.keys(), ...pseudoInstructions.keys()]);
+      const hint = suggestion ? ` (did you mean ${suggestion}?)` : '';
+      this.addErrorAt(mnemonicToken, `Unknown instruction: ${mnemonic}${hint}`);
+      return;
+    }
+
+    // 伪指令展开用到的指令必须在当前指令集中
+    const unavailable = definition ? undefined : pseudo!.expansion
+      .map(line => line.trim().split(/\s+/)[0])
+      .find(expanded => !instructionSet.instructions.has(expanded));
+    if (unavailable) {
+      this.addErrorAt(mnemonicToken, `Pseudo instruction ${mnemonic} is not available in ${instructionSet.name} (expands to ${unavailable})`);
+      return;
+    }
+    
+    const issues = definition ? validateOperands(definition, operands) : validatePseudoOperands(pseudo!, operands);
+    for (const issue of issues) {
+      const token = issue.index !== undefined ? operandTokens[issue.index] : mnemonicToken;
+      this.addErrorAt(token, issue.message);
     }
   }
 
@@ -298,15 +1204,14 @@ export class Parser {
   private parseOperand(): Operand | null {
     if (this.match(TokenType.DOLLAR)) {
       return this.parseRegister();
-    } else if (this.match(TokenType.NUMBER) || this.match(TokenType.HEX_NUMBER)) {
-      return this.parseImmediate();
-    } else if (this.match(TokenType.IDENTIFIER)) {
-      return this.parseLabelReference();
-    } else if (this.match(TokenType.LPAREN)) {
+    } else if (this.match(TokenType.LPAREN) && this.peekNext().type === TokenType.DOLLAR) {
       return this.parseMemoryAddress();
+    } else if (this.isAtExpression()) {
+      return this.parseExpressionOperand();
     }
     
     this.addError(`Unexpected operand: ${this.peek().value}`);
+    this.advance();
     return null;
   }
 
@@ -314,20 +1219,45 @@ export class Parser {
    * 解析寄存器
    */
   private parseRegister(): Operand {
-    this.advance(); // 跳过 $
+    const dollarToken = this.advance(); // 跳过 $
     
-    if (this.match(TokenType.REGISTER)) {
+    if (this.match(TokenType.REGISTER) || this.match(TokenType.IDENTIFIER)) {
       const registerToken = this.advance();
-      const registerIndex = this.getRegisterIndex(registerToken.value);
-      
+      const name = registerToken.value.toLowerCase();
+      const registerIndex = this.getRegisterIndex(name);
+      if (registerIndex !== undefined) {
+        return {
+          type: OperandType.REGISTER,
+          value: registerToken.value,
+          register: registerIndex
+        };
+      }
+
+      // CP0 寄存器名称，是否用在 mfc0/mtc0 的 rd 上由操作数检查负责
+      const cp0Index = this.getCP0RegisterIndex(name);
+      if (cp0Index !== undefined) {
+        return {
+          type: OperandType.REGISTER,
+          value: name,
+          register: cp0Index,
+          cp0: true
+        };
+      }
+
+      const suggestion = suggestMnemonic(name, [...REGISTER_NAMES.values(), ...CP0_REGISTER_NAMES.values()]);
+      const hint = suggestion ? ` (did you mean $${suggestion}?)` : '';
+      this.addErrorAt(dollarToken, `Unknown register: $${registerToken.value}${hint}`);
       return {
         type: OperandType.REGISTER,
-        value: registerToken.value,
-        register: registerIndex
+        value: '$0',
+        register: 0
       };
     } else if (this.match(TokenType.NUMBER)) {
       const numberToken = this.advance();
       const registerIndex = parseInt(numberToken.value);
+      if (!(registerIndex >= 0 && registerIndex <= 31)) {
+        this.addErrorAt(dollarToken, `Invalid register: $${numberToken.value} (expected $0..$31)`);
+      }
       
       return {
         type: OperandType.REGISTER,
@@ -345,141 +1275,191 @@ export class Parser {
   }
 
   /**
-   * 解析立即数
+   * 解析表达式操作数：立即数、标签引用或带偏移的内存地址
    */
-  private parseImmediate(): Operand {
-    const token = this.advance();
-    let value: number;
+  private parseExpressionOperand(): Operand | null {
+    const start = this.position;
+    const expression = this.parseExpression();
+    if (!expression) {
+      return null;
+    }
+    const text = this.getTokenText(start, this.position);
     
-    if (token.type === TokenType.HEX_NUMBER) {
-      value = this.parseHexNumber(token.value);
-    } else {
-      value = parseInt(token.value);
+    // 表达式后紧跟 (寄存器) 时为内存地址的偏移量
+    if (this.match(TokenType.LPAREN)) {
+      return this.parseMemoryAddress(expression, start);
     }
     
-    return {
-      type: OperandType.IMMEDIATE,
-      value: token.value,
-      immediate: value
-    };
+    // 单独的符号作为标签引用（已定义的符号常量按立即数处理）
+    if (expression.type === 'symbol' && !this.context.constants.has(expression.name)) {
+      return {
+        type: OperandType.LABEL,
+        value: expression.name,
+        label: expression.name
+      };
+    }
+    
+    return this.parseImmediate(expression, text);
   }
 
   /**
-   * 解析标签引用
+   * 解析立即数
    */
-  private parseLabelReference(): Operand {
-    const token = this.advance();
+  private parseImmediate(expression: ExpressionNode, text: string): Operand {
+    const value = this.evaluateConstant(expression);
+    
+    if (value === undefined) {
+      return {
+        type: OperandType.IMMEDIATE,
+        value: text,
+        expression
+      };
+    }
     
     return {
-      type: OperandType.LABEL,
-      value: token.value,
-      label: token.value
+      type: OperandType.IMMEDIATE,
+      value: text,
+      immediate: value
     };
   }
 
   /**
    * 解析内存地址
+   * 格式: [offset](rs)，offset可以是任意表达式
    */
-  private parseMemoryAddress(): Operand {
-    // 解析offset (可以是数字或标签)
+  private parseMemoryAddress(offsetExpression?: ExpressionNode, start: number = this.position): Operand {
     let offset = 0;
-    let offsetValue = '0';
+    let expression: ExpressionNode | undefined;
     
-    if (this.match(TokenType.NUMBER) || this.match(TokenType.HEX_NUMBER)) {
-      const offsetToken = this.advance();
-      offsetValue = offsetToken.value;
-      if (offsetToken.type === TokenType.HEX_NUMBER) {
-        offset = this.parseHexNumber(offsetToken.value);
+    if (offsetExpression) {
+      const value = this.evaluateConstant(offsetExpression);
+      if (value === undefined) {
+        // 引用了标签的偏移量在编码阶段求值
+        expression = offsetExpression;
       } else {
-        offset = parseInt(offsetToken.value);
+        offset = value;
       }
-    } else if (this.match(TokenType.IDENTIFIER)) {
-      // 标签作为offset
-      const labelToken = this.advance();
-      offsetValue = labelToken.value;
-      // 对于标签，offset将在链接阶段解析
-      offset = 0; // 临时值
     }
     
     // 跳过左括号
     this.consume(TokenType.LPAREN, 'Expected ( after offset');
     
     // 解析寄存器
-    this.consume(TokenType.DOLLAR, 'Expected $ before register');
-    const registerToken = this.advance();
-    const registerIndex = this.getRegisterIndex(registerToken.value);
+    let registerIndex = 0;
+    if (this.match(TokenType.DOLLAR)) {
+      const registerToken = this.peekNext();
+      const base = this.parseRegister();
+      if (base.cp0) {
+        this.addErrorAt(registerToken, `CP0 register $${base.value} cannot be used as a base register`);
+      }
+      registerIndex = base.register || 0;
+    } else {
+      this.addError('Expected $ before register');
+    }
     
     // 跳过右括号
     this.consume(TokenType.RPAREN, 'Expected ) after register');
     
     return {
       type: OperandType.ADDRESS,
-      value: `${offsetValue}($${registerToken.value})`,
+      value: this.getTokenText(start, this.position),
       register: registerIndex,
       offset: offset,
-      label: offsetValue // 如果是标签，保存标签名
+      expression
     };
   }
 
   /**
-   * 解析没有标签的数据定义
+   * 解析表达式，出错时跳过当前操作数剩余部分
    */
-  private parseDataDefinitionWithoutLabel(): void {
-    // 解析数据类型
-    let dataType: 'byte' | 'word' | 'half' | 'ascii' | 'space';
+  private parseExpression(): ExpressionNode | null {
+    const startToken = this.peek();
+    const expressionParser = new ExpressionParser(this.tokens, this.position);
+    
+    try {
+      const expression = expressionParser.parse();
+      this.position = expressionParser.getPosition();
+      return this.resolveLocalLabelReferences(expression, startToken);
+    } catch (error) {
+      this.addError(error.message);
+      while (!this.isAtLineEnd() && !this.match(TokenType.COMMA)) {
+        this.advance();
+      }
+      return null;
+    }
+  }
+
+  /**
+   * 在解析阶段对表达式求值
+   * 只引用符号常量的表达式立即求值；引用标签（或尚未定义的符号）的表达式返回undefined，
+   * 推迟到编码阶段求值，以保证解析阶段计算的指令大小与编码阶段一致
+   */
+  private evaluateConstant(expression: ExpressionNode): number | undefined {
+    const constants = this.context.constants;
+    if (getExpressionSymbols(expression).some(name => !constants.has(name))) {
+      return undefined;
+    }
     
+    try {
+      return evaluateExpression(expression, name => constants.get(name)?.value);
+    } catch (error) {
+      this.addError(error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * 检查当前位置是否为表达式的开始
+   */
+  private isAtExpression(): boolean {
+    return !this.isAtEnd() && isExpressionStart(this.peek(), this.peekNext());
+  }
+
+  /**
+   * 获取数据类型指令对应的数据类型
+   */
+  private getDataType(): DataDefinition['type'] | null {
     if (this.match(TokenType.DOT_BYTE)) {
-      dataType = 'byte';
+      return 'byte';
     } else if (this.match(TokenType.DOT_WORD)) {
-      dataType = 'word';
+      return 'word';
     } else if (this.match(TokenType.DOT_HALF)) {
-      dataType = 'half';
+      return 'half';
     } else if (this.match(TokenType.DOT_ASCII)) {
-      dataType = 'ascii';
+      return 'ascii';
+    } else if (this.match(TokenType.DOT_ASCIIZ)) {
+      return 'asciiz';
     } else if (this.match(TokenType.DOT_SPACE)) {
-      dataType = 'space';
-    } else {
+      return 'space';
+    }
+    return null;
+  }
+
+  /**
+   * 解析没有标签的数据定义
+   */
+  private parseDataDefinitionWithoutLabel(): void {
+    // 解析数据类型
+    const dataType = this.getDataType();
+    if (!dataType) {
       this.addError(`Expected data type directive`);
       return;
     }
     
-    this.advance(); // 跳过数据类型
+    const directiveToken = this.advance(); // 跳过数据类型
+    this.autoAlignData(dataType);
     
     // 解析数据值
-    const values: (number | string)[] = [];
-    
-    while (!this.match(TokenType.NEWLINE) && !this.match(TokenType.COMMENT) && !this.isAtEnd()) {
-      if (this.match(TokenType.COMMA)) {
-        this.advance();
-        continue;
-      }
-      
-      if (this.match(TokenType.STRING)) {
-        const stringToken = this.advance();
-        values.push(stringToken.value);
-      } else if (this.match(TokenType.IDENTIFIER)) {
-        // 处理字符串字面量（没有引号的）
-        const identifierToken = this.advance();
-        values.push(identifierToken.value);
-      } else if (this.match(TokenType.NUMBER) || this.match(TokenType.HEX_NUMBER)) {
-        const numberToken = this.advance();
-        if (numberToken.type === TokenType.HEX_NUMBER) {
-          values.push(this.parseHexNumber(numberToken.value));
-        } else {
-          values.push(parseInt(numberToken.value));
-        }
-      } else {
-        this.addError(`Unexpected data value: ${this.peek().value}`);
-        this.advance();
-      }
-    }
+    const values = this.parseDataValues(dataType);
     
     // 创建数据定义
     const dataDefinition: DataDefinition = {
       type: dataType,
       values,
       address: this.context.programCounter,
-      size: this.calculateDataSize(dataType, values)
+      size: this.calculateDataSize(dataType, values),
+      lineNumber: directiveToken.line,
+      macro: directiveToken.expansion
     };
     
     // 添加到数据段
@@ -501,31 +1481,48 @@ export class Parser {
   private parseDataDefinition(): void {
     const nameToken = this.advance();
     this.consume(TokenType.COLON, 'Expected : after label name');
+    const name = nameToken.type === TokenType.NUMBER ? this.defineLocalLabel(nameToken.value) : this.defineScopedLabel(nameToken);
     
-    // 解析数据类型
-    let dataType: 'byte' | 'word' | 'half' | 'ascii' | 'space';
+    // 自动对齐时标签指向对齐后的数据
+    const dataType = this.getDataType();
+    if (dataType) {
+      this.autoAlignData(dataType);
+    }
     
-    if (this.match(TokenType.DOT_BYTE)) {
-      dataType = 'byte';
-    } else if (this.match(TokenType.DOT_WORD)) {
-      dataType = 'word';
-    } else if (this.match(TokenType.DOT_HALF)) {
-      dataType = 'half';
-    } else if (this.match(TokenType.DOT_ASCII)) {
-      dataType = 'ascii';
-    } else if (this.match(TokenType.DOT_SPACE)) {
-      dataType = 'space';
-    } else {
-      this.addError(`Expected data type directive`);
+    // 创建标签
+    const label: Label = {
+      name,
+      address: this.context.programCounter,
+      lineNumber: nameToken.line,
+      isGlobal: true
+    };
+    
+    // 添加到数据段和全局标签表
+    this.defineLabel(label, this.context.segments.get('data')!, nameToken);
+    
+    // 单独一行的标签，或后面是 .rept/.irp/.align/.org 等控制指令的标签（与代码段相同，
+    // 标签指向当前位置，控制指令由数据段的解析循环处理），指向后面的数据定义
+    if (this.isAtLineEnd() || this.isControlDirective()) {
       return;
     }
     
-    this.advance(); // 跳过数据类型
+    // 标签后面是宏调用时，标签指向宏展开生成的数据
+    if (this.isMacroInvocation()) {
+      this.expandMacroInvocation(this.advance());
+      return;
+    }
     
-    // 解析数据值
-    const values: (number | string)[] = [];
+    this.parseDataDefinitionWithoutLabel();
+  }
+
+  /**
+   * 解析数据值列表
+   * 数值类型的每一项都是表达式，引用标签的表达式推迟到编码阶段求值
+   */
+  private parseDataValues(dataType: DataDefinition['type']): DataValue[] {
+    const values: DataValue[] = [];
     
-    while (!this.match(TokenType.NEWLINE) && !this.match(TokenType.COMMENT) && !this.isAtEnd()) {
+    while (!this.isAtLineEnd()) {
       if (this.match(TokenType.COMMA)) {
         this.advance();
         continue;
@@ -534,16 +1531,15 @@ export class Parser {
       if (this.match(TokenType.STRING)) {
         const stringToken = this.advance();
         values.push(stringToken.value);
-      } else if (this.match(TokenType.IDENTIFIER)) {
+      } else if ((dataType === 'ascii' || dataType === 'asciiz') && this.match(TokenType.IDENTIFIER)) {
         // 处理字符串字面量（没有引号的）
         const identifierToken = this.advance();
         values.push(identifierToken.value);
-      } else if (this.match(TokenType.NUMBER) || this.match(TokenType.HEX_NUMBER)) {
-        const numberToken = this.advance();
-        if (numberToken.type === TokenType.HEX_NUMBER) {
-          values.push(this.parseHexNumber(numberToken.value));
-        } else {
-          values.push(parseInt(numberToken.value));
+      } else if (this.isAtExpression()) {
+        const expression = this.parseExpression();
+        if (expression) {
+          const value = this.evaluateConstant(expression);
+          values.push(value !== undefined ? value : expression);
         }
       } else {
         this.addError(`Unexpected data value: ${this.peek().value}`);
@@ -551,43 +1547,41 @@ export class Parser {
       }
     }
     
-    // 创建数据定义
-    const dataDefinition: DataDefinition = {
-      type: dataType,
-      values,
-      address: this.context.programCounter,
-      size: this.calculateDataSize(dataType, values)
-    };
-    
-    // 创建标签
-    const label: Label = {
-      name: nameToken.value,
-      address: this.context.programCounter,
-      lineNumber: nameToken.line,
-      isGlobal: true
-    };
-    
-    // 添加到数据段
-    const dataSegment = this.context.segments.get('data')!;
-    dataSegment.data.push(dataDefinition);
-    dataSegment.labels.set(nameToken.value, label);
-    
-    // 添加到全局标签表
-    this.context.globalLabels.set(nameToken.value, label);
-    
-    // 更新程序计数器
-    this.context.programCounter += dataDefinition.size;
-    
-    // 跳过换行符
-    if (this.match(TokenType.NEWLINE)) {
-      this.advance();
+    // .space 的大小决定后续地址，必须在解析阶段确定（只能引用已定义的标签）
+    if (dataType === 'space' && values.length > 0 && typeof values[0] === 'object') {
+      try {
+        values[0] = evaluateExpression(values[0], name => this.lookupDefinedSymbol(name));
+      } catch (error) {
+        this.addError(`.space size must be a constant expression: ${error.message}`);
+        values[0] = 0;
+      }
+    }
+    if (dataType === 'space' && typeof values[0] === 'number' && (!Number.isInteger(values[0]) || values[0] < 0)) {
+      this.addError(`.space size must be a non-negative integer: ${values[0]}`);
+      values[0] = 0;
+    }
+
+    return values;
+  }
+
+  /**
+   * 启用自动对齐时，将 .word/.half 对齐到自然边界
+   */
+  private autoAlignData(dataType: DataDefinition['type']): void {
+    if (!this.options.autoAlign) {
+      return;
+    }
+    if (dataType === 'word') {
+      this.alignProgramCounter(4);
+    } else if (dataType === 'half') {
+      this.alignProgramCounter(2);
     }
   }
 
   /**
    * 计算数据大小
    */
-  private calculateDataSize(type: string, values: (number | string)[]): number {
+  private calculateDataSize(type: string, values: DataValue[]): number {
     switch (type) {
       case 'byte':
         return values.length;
@@ -596,12 +1590,15 @@ export class Parser {
       case 'word':
         return values.length * 4;
       case 'ascii':
+      case 'asciiz': {
+        // 字符串在词法分析时已完成转义，每个字符占1字节；.asciiz 每个字符串末尾再加1字节的 NUL
         let totalSize = 0;
         for (const value of values) {
-          const str = (value as string) || '';
-          totalSize += str.length;
+          const str = typeof value === 'string' ? value : '';
+          totalSize += str.length + (type === 'asciiz' ? 1 : 0);
         }
         return totalSize;
+      }
       case 'space':
         return values.length > 0 ? (values[0] as number) : 0;
       default:
@@ -613,21 +1610,33 @@ export class Parser {
    * 获取指令类型
    */
   private getInstructionType(mnemonic: string): any {
-    const instruction = INSTRUCTION_LOOKUP.get(mnemonic);
+    const instruction = this.context.instructionSet!.instructions.get(mnemonic);
     return instruction ? instruction.type : 'UNKNOWN';
   }
 
   /**
-   * 获取寄存器索引
+   * 获取寄存器索引，不是通用寄存器名称时返回undefined
    */
-  private getRegisterIndex(registerName: string): number {
+  private getRegisterIndex(registerName: string): number | undefined {
     const name = registerName.toLowerCase();
     for (const [index, regName] of REGISTER_NAMES.entries()) {
       if (regName === name) {
         return index;
       }
     }
-    return 0; // 默认返回 $zero
+    return undefined;
+  }
+
+  /**
+   * 获取 CP0 寄存器号，不是 CP0 寄存器名称时返回undefined
+   */
+  private getCP0RegisterIndex(registerName: string): number | undefined {
+    for (const [index, name] of CP0_REGISTER_NAMES.entries()) {
+      if (name === registerName) {
+        return index;
+      }
+    }
+    return undefined;
   }
 
   /**
@@ -637,6 +1646,13 @@ export class Parser {
     return parseInt(hexString, 16);
   }
 
+  /**
+   * 获取一段标记对应的源代码文本
+   */
+  private getTokenText(start: number, end: number): string {
+    return this.tokens.slice(start, end).map(token => token.value).join('');
+  }
+
   /**
    * 获取当前行内容
    */
@@ -663,6 +1679,14 @@ export class Parser {
     return token || { type: TokenType.EOF, value: '', line: 0, column: 0, position: 0 };
   }
 
+  /**
+   * 查看下一个标记
+   */
+  private peekNext(): Token {
+    const token = this.tokens[this.position + 1];
+    return token || { type: TokenType.EOF, value: '', line: 0, column: 0, position: 0 };
+  }
+
   /**
    * 前进并返回当前标记
    */
@@ -692,16 +1716,67 @@ export class Parser {
     return token || { type: TokenType.EOF, value: '', line: 0, column: 0, position: 0 };
   }
 
+  /**
+   * 检查是否到达当前行末尾
+   */
+  private isAtLineEnd(): boolean {
+    return this.isAtEnd() || this.match(TokenType.NEWLINE) || this.match(TokenType.COMMENT);
+  }
+
+  /**
+   * 跳过当前行剩余的标记（包括换行符）
+   */
+  private skipToEndOfLine(): void {
+    while (!this.isAtEnd() && !this.match(TokenType.NEWLINE)) {
+      this.advance();
+    }
+    if (this.match(TokenType.NEWLINE)) {
+      this.advance();
+    }
+  }
+
+  /**
+   * 将展开后源代码的行号格式化为原始位置，用于错误信息中引用其他行
+   */
+  private formatLine(lineNumber: number): string {
+    const location = this.context.sourceMap?.[lineNumber - 1];
+    if (!location || location.file === DEFAULT_SOURCE_FILE) {
+      return `line ${location ? location.line : lineNumber}`;
+    }
+    return `${location.file}:${location.line}`;
+  }
+
   /**
    * 添加错误
    */
   private addError(message: string): void {
+    this.addErrorAt(this.peek(), message);
+  }
+
+  /**
+   * 在指定标记处添加错误
+   */
+  private addErrorAt(token: Token, message: string, type: AssemblyError['type'] = 'SYNTAX'): void {
+    this.addErrorAtLine(token.line, message, type, token.expansion, token.column);
+  }
+
+  /**
+   * 在指定行添加错误
+   */
+  private addErrorAtLine(
+    lineNumber: number,
+    message: string,
+    type: AssemblyError['type'] = 'SYNTAX',
+    macro?: MacroExpansionInfo,
+    column?: number
+  ): void {
     this.errors.push({
-      type: 'SYNTAX',
+      type,
       message,
-      lineNumber: this.peek().line,
-      column: this.peek().column,
-      sourceLine: this.getCurrentLine()
+      lineNumber,
+      column,
+      sourceLine: lineNumber > 0 ? this.sourceLines[lineNumber - 1] ?? '' : '',
+      macro
     });
   }
 }
@@ -1,14 +1,18 @@
 # ====== minisys-bios.asm ======
+.equ MMIO_LED,      0xFFFFFC60  # LED基址（addi 符号扩展后的地址）
+.equ MMIO_SEG_CODE, 0xFFFFFC00  # 段码基址
+.equ MMIO_SEG_POS,  0xFFFFFC04  # 位码基址
+
     lui $sp, 1 # init $sp
     # -----------------------------
-    addi $s1,$zero,0xFFFF
-    addi $s7,$zero,0xFC60   # LED基址
+    addi $s1,$zero,-1
+    addi $s7,$zero,MMIO_LED      # LED基址
     sw	 $s1,0($s7)         # LED全亮
     # 数码管循环显示20260101
     # lui  $s5,8
     addi $s5,$zero,0x000A
-    addi $s3,$zero,0xFC00   # 段码基址
-    addi $s4,$zero,0xFC04   # 位码基址
+    addi $s3,$zero,MMIO_SEG_CODE # 段码基址
+    addi $s4,$zero,MMIO_SEG_POS  # 位码基址
 
     addi $s6,$zero,8 # off
 _bios_label1:
@@ -96,7 +100,7 @@ _bios_label3:
     jal main
     nop
     # close 7seg
-    addi $s4,$zero,0xFC04   # 位码基址
+    addi $s4,$zero,MMIO_SEG_POS  # 位码基址
     addi $s6,$zero,8 # off
     sw   $s6,0($s4)         # 关数码管 
     syscall
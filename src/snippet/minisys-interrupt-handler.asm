@@ -87,9 +87,9 @@ interruptServer1:
   lui $t3, 16
   ori $t3, $t3, 0
 
-  _delay_in_interrupt:
+  .delay:
 	addi $t3, $t3, -1
-	bne $t3, $zero, _delay_in_interrupt
+	bne $t3, $zero, .delay
 	nop
 	nop
   
@@ -0,0 +1,269 @@
+/**
+ * 指令集与硬件头文件对照
+ * 读取 Verilog 头文件（如 public.v）中 `define 定义的操作码、功能码宏，与指令集比较，
+ * 报告不一致的地方，或生成以头文件为准的指令集描述文件（供 --isa 使用）
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { InstructionDefinition, InstructionSetDescription, createInstructionDescription } from '../core/instruction-set';
+import {
+  DEFAULT_INSTRUCTION_SET,
+  InstructionSet,
+  getBuiltinInstructionSets,
+  loadInstructionSet,
+  resolveInstructionSet
+} from '../core/isa';
+
+// `define 宏：名称、值和所在行号
+export interface VerilogDefine {
+  name: string;
+  value: number;
+  line: number;
+}
+
+// 与指令集不一致的宏：expected 为指令集中该字段的值，指令没有该字段时为undefined
+export interface DefineMismatch {
+  define: VerilogDefine;
+  mnemonic: string;
+  field: string;
+  expected?: number;
+}
+
+// 对照结果
+export interface IsaComparison {
+  matched: VerilogDefine[]; // 与指令集中某条指令的字段对应的宏
+  mismatches: DefineMismatch[];
+  unrecognized: string[]; // 无法对应到指令的宏（如 `define ZERO_WORD 32'h0）
+  missing: string[]; // 头文件中没有任何宏的指令
+}
+
+// 宏名称中表示字段的单词
+const FIELD_KEYWORDS: Map<string, string> = new Map([
+  ['op', 'op'],
+  ['opcode', 'op'],
+  ['func', 'funct'],
+  ['funct', 'funct'],
+  ['fn', 'funct'],
+  ['rs', 'rs'],
+  ['rt', 'rt']
+]);
+
+// 宏名称中可以忽略的单词（如 EXE_ADD_OP 中的 EXE）
+const IGNORED_WORDS = new Set(['exe', 'inst', 'instr', 'code']);
+
+// 宏名称开头表示指令格式的单词（如 R_ADD_FUNCT 中的 R）
+const FORMAT_WORDS = new Set(['r', 'i', 'j']);
+
+// `define NAME value
+const DEFINE_PATTERN = /^\s*`define\s+(\w+)\s+(.*)$/;
+
+// Verilog 数字：6'b100000、6'h20、'd8、32
+const NUMBER_PATTERN = /^(?:\d+)?\s*'[sS]?([bBoOdDhH])\s*([0-9a-fA-F_]+)$|^(\d[\d_]*)$/;
+
+const RADIXES: Map<string, number> = new Map([['b', 2], ['o', 8], ['d', 10], ['h', 16]]);
+
+/**
+ * 解析 Verilog 源代码中值为数字的 `define 宏，值不是数字的宏（如引用其他宏、含 x/z 位）忽略
+ */
+export function parseVerilogDefines(source: string): VerilogDefine[] {
+  const defines: VerilogDefine[] = [];
+  source.split(/\r?\n/).forEach((text, index) => {
+    const match = DEFINE_PATTERN.exec(text.replace(/\/\/.*$/, '').replace(/\/\*.*?\*\//g, ''));
+    if (!match) {
+      return;
+    }
+    const value = parseVerilogNumber(match[2].trim());
+    if (value !== undefined) {
+      defines.push({ name: match[1], value, line: index + 1 });
+    }
+  });
+  return defines;
+}
+
+/**
+ * 将宏与指令集对照：宏名称去掉字段单词（OP、FUNCT 等）和可忽略的单词后即为助记符，
+ * 没有字段单词的宏对应有功能码的指令的功能码，否则对应操作码
+ */
+export function compareInstructionSet(defines: VerilogDefine[], instructionSet: InstructionSet): IsaComparison {
+  const { instructions } = instructionSet;
+  const comparison: IsaComparison = { matched: [], mismatches: [], unrecognized: [], missing: [] };
+  const covered = new Set<string>();
+
+  for (const define of defines) {
+    const target = matchDefine(define.name, instructions);
+    if (!target) {
+      comparison.unrecognized.push(define.name);
+      continue;
+    }
+
+    const definition = instructions.get(target.mnemonic)!;
+    const field = target.field ?? (definition.funct !== undefined ? 'funct' : 'op');
+    let expected: number | undefined;
+    if (field === 'op') {
+      expected = definition.opcode;
+    } else if (field === 'funct') {
+      expected = definition.funct;
+    } else {
+      expected = definition.fields?.[field];
+    }
+
+    comparison.matched.push(define);
+    covered.add(definition.mnemonic);
+    if (expected !== define.value) {
+      comparison.mismatches.push({ define, mnemonic: definition.mnemonic, field, expected });
+    }
+  }
+
+  comparison.missing = [...instructions.values()]
+    .filter(definition => !definition.aliasOf && !covered.has(definition.mnemonic))
+    .map(definition => definition.mnemonic);
+  return comparison;
+}
+
+/**
+ * 生成以头文件为准的指令集描述：base 为内置变体名时只列出需要修改的指令，
+ * 否则列出对照的指令集的全部指令；指令没有对应字段的不一致无法修正，不写入描述
+ */
+export function createOverrideDescription(
+  comparison: IsaComparison,
+  instructionSet: InstructionSet,
+  name: string,
+  base?: string
+): InstructionSetDescription {
+  const overrides = new Map<string, DefineMismatch[]>();
+  for (const mismatch of comparison.mismatches) {
+    if (mismatch.expected !== undefined) {
+      overrides.set(mismatch.mnemonic, [...(overrides.get(mismatch.mnemonic) || []), mismatch]);
+    }
+  }
+
+  const definitions = [...instructionSet.instructions.values()].filter(definition => !base || overrides.has(definition.mnemonic));
+  const instructions = definitions.map(definition => {
+    const description = createInstructionDescription(definition);
+    for (const { field, define } of overrides.get(definition.mnemonic) || []) {
+      if (field === 'op') {
+        description.opcode = define.value;
+      } else if (field === 'funct') {
+        description.funct = define.value;
+      } else {
+        description.fields = { ...description.fields, [field]: define.value };
+      }
+    }
+    return description;
+  });
+
+  return base ? { name, base, instructions } : { name, instructions };
+}
+
+/**
+ * 宏对应的指令和字段（字段未写明时为undefined），不是指令字段的宏返回undefined
+ */
+function matchDefine(name: string, instructions: ReadonlyMap<string, InstructionDefinition>): { mnemonic: string; field?: string } | undefined {
+  let field: string | undefined;
+  const words: string[] = [];
+  for (const word of name.toLowerCase().split('_').filter(Boolean)) {
+    if (field === undefined && FIELD_KEYWORDS.has(word)) {
+      field = FIELD_KEYWORDS.get(word);
+    } else if (!IGNORED_WORDS.has(word)) {
+      words.push(word);
+    }
+  }
+
+  const candidates = [words.join('')];
+  if (words.length > 1 && FORMAT_WORDS.has(words[0])) {
+    candidates.push(words.slice(1).join(''));
+  }
+  const mnemonic = candidates.find(candidate => instructions.has(candidate));
+  return mnemonic ? { mnemonic, field } : undefined;
+}
+
+/**
+ * 解析 Verilog 数字，不是数字时返回undefined
+ */
+function parseVerilogNumber(text: string): number | undefined {
+  const match = NUMBER_PATTERN.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  if (match[3] !== undefined) {
+    return parseInt(match[3].replace(/_/g, ''), 10);
+  }
+
+  const radix = RADIXES.get(match[1].toLowerCase())!;
+  const digits = match[2].replace(/_/g, '');
+  const value = parseInt(digits, radix);
+  // parseInt 遇到不属于该进制的字符会截断（如 'b102）
+  return !isNaN(value) && value.toString(radix) === digits.replace(/^0+(?=.)/, '').toLowerCase() ? value : undefined;
+}
+
+function toHex(value: number): string {
+  return `0x${value.toString(16)}`;
+}
+
+/**
+ * 从命令行参数中取出选项的值（同时删除选项），没有该选项时返回undefined
+ */
+function takeOption(args: string[], option: string): string | undefined {
+  const index = args.indexOf(option);
+  if (index < 0) {
+    return undefined;
+  }
+  const [, value] = args.splice(index, 2);
+  return value;
+}
+
+/**
+ * 主函数：对照头文件检查指令集
+ */
+export function main() {
+  const args = process.argv.slice(2);
+
+  // --isa 选择对照的指令集，-o 生成指令集描述文件
+  const isa = takeOption(args, '--isa') ?? DEFAULT_INSTRUCTION_SET;
+  const outputFile = takeOption(args, '-o');
+
+  if (args.length < 1) {
+    console.error('用法：isa-check <public.v> [--isa <name|file>] [-o <override.json>]');
+    process.exit(1);
+  }
+
+  const headerFile = args[0];
+  try {
+    const instructionSet = loadInstructionSet(isa);
+    const instructionSetName = instructionSet.name;
+
+    console.log(`正在对照 ${instructionSetName} 检查 ${headerFile}...`);
+    const comparison = compareInstructionSet(parseVerilogDefines(fs.readFileSync(headerFile, 'utf-8')), instructionSet);
+
+    console.log(`已识别 ${comparison.matched.length} 个指令字段宏，${comparison.mismatches.length} 个与指令集不一致`);
+    for (const { define, mnemonic, field, expected } of comparison.mismatches) {
+      const actual = expected === undefined ? `${instructionSetName} 中的 ${mnemonic} 没有 ${field} 字段` : `${mnemonic} 的 ${field} 为 ${toHex(expected)}`;
+      console.log(`  ${headerFile}:${define.line}: ${define.name} = ${toHex(define.value)}，${actual}`);
+    }
+    if (comparison.unrecognized.length > 0) {
+      console.log(`未识别的宏：${comparison.unrecognized.join(', ')}`);
+    }
+    if (comparison.missing.length > 0) {
+      console.log(`头文件中没有对应宏的指令：${comparison.missing.join(', ')}`);
+    }
+
+    if (outputFile) {
+      // 以内置变体为基础时只写入修改的指令
+      const base = getBuiltinInstructionSets().includes(isa.toLowerCase()) ? isa.toLowerCase() : undefined;
+      const description = createOverrideDescription(comparison, instructionSet, path.basename(headerFile, path.extname(headerFile)), base);
+      resolveInstructionSet(description);
+      fs.writeFileSync(outputFile, JSON.stringify(description, null, 2) + '\n', 'utf-8');
+      console.log(`指令集描述已写入 ${outputFile}（${description.instructions!.length} 条指令），使用 --isa ${outputFile} 汇编`);
+    } else if (comparison.mismatches.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(`错误：${error instanceof Error ? error.message : '未知错误'}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}